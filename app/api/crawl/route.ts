@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import {
+  CrawlProxyError, CrawlRateLimiter, createUpstreamClient, identifyUser, loadProxyConfig, rateLimitKey, validateCrawlRequest,
+} from "@/lib/crawl-proxy";
+import { SpiderApiError, SpiderAuthError, SpiderCreditsError } from "@/lib/spider-client";
+
+export const dynamic = "force-dynamic";
+
+const config = loadProxyConfig();
+const limiter = new CrawlRateLimiter(config.rateLimit);
+const upstream = createUpstreamClient(config);
+
+function errorResponse(error: CrawlProxyError) {
+  return NextResponse.json(
+    { error: error.message },
+    { status: error.status, headers: error.retryAfterMs ? { "retry-after": String(Math.ceil(error.retryAfterMs / 1000)) } : undefined }
+  );
+}
+
+/**
+ * Passes `body` through and calls `release` once it ends, fails or is cancelled by the
+ * client, so a broken upstream stream cannot keep holding a rate limit slot.
+ */
+function releaseOnEnd(body: ReadableStream<Uint8Array>, release: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (!done) return controller.enqueue(value);
+        release();
+        controller.close();
+      } catch (e) {
+        release();
+        controller.error(e);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Proxies a crawl to Spider and streams its JSONL back. The browser sends its session
+ * token, and its own Spider key in `x-spider-api-key` when it has one.
+ */
+export async function POST(req: Request) {
+  let release: (() => void) | undefined;
+  let usingKey = false;
+  try {
+    const user = await identifyUser(req.headers.get("authorization"), config);
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      throw new CrawlProxyError("The request body is not valid JSON.", 400);
+    }
+    const crawl = validateCrawlRequest(body, config);
+    release = limiter.acquire(rateLimitKey(user, req.headers));
+    req.signal.addEventListener("abort", release);
+
+    const ownKey = req.headers.get("x-spider-api-key")?.trim();
+    const key = (user.verified && config.teamKey) || ownKey;
+    usingKey = !!key;
+    const authorization = key || req.headers.get("authorization")!;
+    const res = await upstream.openCrawl(crawl, { authorization, signal: req.signal });
+    if (!res.body) throw new CrawlProxyError("Spider returned an empty response.", 502);
+    return new Response(releaseOnEnd(res.body, release), {
+      headers: { "content-type": "application/jsonl", "cache-control": "no-store" },
+    });
+  } catch (e) {
+    release?.();
+    if (e instanceof CrawlProxyError) return errorResponse(e);
+    if (e instanceof SpiderApiError) {
+      const hint = e instanceof SpiderAuthError || e instanceof SpiderCreditsError ? " Check your API key and credits." : "";
+      // A 401 tells the browser to refresh its session, which cannot fix a rejected key.
+      const status = e.status === 401 && usingKey ? 502 : e.status;
+      return errorResponse(new CrawlProxyError(`${e.message}${hint}`, status, e.retryAfterMs));
+    }
+    if (req.signal.aborted) return new Response(null, { status: 499 });
+    console.error(e);
+    return errorResponse(new CrawlProxyError("Could not reach Spider.", 502));
+  }
+}
@@ -0,0 +1,13 @@
+import { createMockSpider } from "@/lib/mock-spider";
+
+export const dynamic = "force-dynamic";
+
+// Served in development, or anywhere with SPIDER_MOCK=1, e.g. for end-to-end tests.
+const enabled = process.env.NODE_ENV === "development" || process.env.SPIDER_MOCK === "1";
+const handle = createMockSpider({ basePath: "/api/mock", jwtSecret: process.env.MOCK_JWT_SECRET || undefined });
+
+/** The mock Spider API; point NEXT_PUBLIC_API_URL at /api/mock to use it. */
+export async function POST(req: Request) {
+  if (!enabled) return new Response("Not found", { status: 404 });
+  return handle(req);
+}
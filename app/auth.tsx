@@ -1,6 +1,6 @@
 "use client";
 
-import { SyntheticEvent, useEffect, useState } from "react";
+import { SyntheticEvent, useCallback, useEffect, useState } from "react";
 import {
   Dialog, DialogContent, DialogDescription, DialogTitle, DialogTrigger,
 } from "@/components/ui/dialog";
@@ -8,132 +8,91 @@ import { Button, buttonVariants } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
-import cookie from "cookie";
+import { createSessionManager, type SessionManager, type SessionState } from "@/lib/session";
+import { createSpiderClient, SpiderApiError, type OAuthProvider, type SpiderSession as Session } from "@/lib/spider-client";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.spider.cloud";
-
-interface Session {
-  access_token: string;
-  refresh_token: string;
-  expires_at?: number;
-  expires_in?: number;
-  token_type?: string;
-  user?: { id?: string; email?: string; app_metadata?: Record<string, any> };
-}
-
-enum CookieKeys {
-  ACCESS_TOKEN = "spider_access_token",
-  REFRESH_TOKEN = "spider_refresh_token",
+const spider = createSpiderClient({ baseUrl: API_URL });
+
+/** The session from an OAuth redirect, whose tokens arrive in the URL hash. */
+function sessionFromHash(): Session | null {
+  if (!window.location.hash.includes("access_token")) return null;
+  const params = new URLSearchParams(window.location.hash.substring(1));
+  const access_token = params.get("access_token");
+  const refresh_token = params.get("refresh_token");
+  if (!access_token || !refresh_token) return null;
+  let user: Session["user"] | undefined;
+  try {
+    const payload = JSON.parse(atob(access_token.split(".")[1]));
+    user = { id: payload.sub, email: payload.email };
+  } catch {}
+  return {
+    access_token,
+    refresh_token,
+    expires_at: Number(params.get("expires_at")) || undefined,
+    expires_in: Number(params.get("expires_in")) || undefined,
+    token_type: params.get("token_type") || "bearer",
+    user,
+  };
 }
 
-const COOKIE_OPTS = { sameSite: "lax" as const, secure: true, path: "/" };
+let manager: SessionManager | null = null;
 
-function getStoredSession(): Session | null {
-  if (typeof window === "undefined") return null;
-  try {
-    const raw = localStorage.getItem("spider_session");
-    return raw ? JSON.parse(raw) : null;
-  } catch {
-    return null;
+/** The tab's session manager, created on first use in the browser. */
+function sessionManager(): SessionManager {
+  if (manager) return manager;
+  manager = createSessionManager(spider);
+  const fromHash = sessionFromHash();
+  if (fromHash) {
+    manager.signIn(fromHash);
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
   }
+  return manager;
 }
 
-function storeSession(session: Session | null) {
-  if (typeof window === "undefined") return;
-  if (session) {
-    localStorage.setItem("spider_session", JSON.stringify(session));
-    document.cookie = cookie.serialize(CookieKeys.ACCESS_TOKEN, session.access_token || "", COOKIE_OPTS);
-    document.cookie = cookie.serialize(CookieKeys.REFRESH_TOKEN, session.refresh_token || "", COOKIE_OPTS);
-  } else {
-    localStorage.removeItem("spider_session");
-    const expire = new Date(0);
-    document.cookie = cookie.serialize(CookieKeys.ACCESS_TOKEN, "", { ...COOKIE_OPTS, expires: expire });
-    document.cookie = cookie.serialize(CookieKeys.REFRESH_TOKEN, "", { ...COOKIE_OPTS, expires: expire });
-  }
+/** The signed-in user's id, or null when signed out. Undefined until the session is known. */
+export function useSessionUser(): string | null | undefined {
+  const [userId, setUserId] = useState<string | null | undefined>(undefined);
+  useEffect(() => {
+    const sessions = sessionManager();
+    const update = ({ session }: SessionState) => setUserId(session ? userIdOf(session) : null);
+    update(sessions.getState());
+    return sessions.subscribe(update);
+  }, []);
+  return userId;
 }
 
-function isExpired(session: Session | null): boolean {
-  if (!session?.expires_at) return true;
-  return Math.floor(Date.now() / 1000) >= session.expires_at;
+function userIdOf(session: Session): string | null {
+  if (session.user?.id) return session.user.id;
+  try {
+    const { sub } = JSON.parse(atob(session.access_token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    if (typeof sub === "string" && sub) return sub;
+  } catch {}
+  return session.user?.email || null;
 }
 
 export const useAuthMenu = () => {
   const [trigger, setTrigger] = useState<"login" | "register">("login");
   const [open, setOpen] = useState(false);
-  const [$session, setSession] = useState<Session | null>(null);
+  const [{ session: $session, expired }, setState] = useState<SessionState>({ session: null, expired: false });
 
   useEffect(() => {
-    // Handle OAuth callback — parse tokens from URL hash fragment
-    if (typeof window !== "undefined" && window.location.hash.includes("access_token")) {
-      const params = new URLSearchParams(window.location.hash.substring(1));
-      const access_token = params.get("access_token");
-      const refresh_token = params.get("refresh_token");
-      if (access_token && refresh_token) {
-        let user: Session["user"] | undefined;
-        try {
-          const payload = JSON.parse(atob(access_token.split(".")[1]));
-          user = { id: payload.sub, email: payload.email };
-        } catch {}
-        const session: Session = {
-          access_token,
-          refresh_token,
-          expires_at: Number(params.get("expires_at")) || undefined,
-          expires_in: Number(params.get("expires_in")) || undefined,
-          token_type: params.get("token_type") || "bearer",
-          user,
-        };
-        storeSession(session);
-        setSession(session);
-        window.history.replaceState(null, "", window.location.pathname + window.location.search);
-        return;
-      }
-    }
-
-    const stored = getStoredSession();
-    if (!stored?.access_token) return;
-    if (isExpired(stored)) {
-      // Try refreshing
-      fetch(API_URL + "/data/refresh-session", {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify(stored),
-      })
-        .then((r) => (r.ok ? r.json() : null))
-        .then((res) => {
-          const fresh = res?.data?.session;
-          if (fresh?.access_token) {
-            const merged = { ...stored, ...fresh };
-            storeSession(merged);
-            setSession(merged);
-          } else {
-            storeSession(null);
-          }
-        })
-        .catch(() => storeSession(null));
-    } else {
-      setSession(stored);
-    }
+    const sessions = sessionManager();
+    setState(sessions.getState());
+    return sessions.subscribe(setState);
   }, []);
 
   const signIn = (session: Session) => {
-    storeSession(session);
-    setSession(session);
+    sessionManager().signIn(session);
     setOpen(false);
   };
 
-  const signOut = async () => {
-    try {
-      await fetch(API_URL + "/data/sign-out", {
-        method: "POST",
-        headers: { "content-type": "application/json", authorization: $session?.access_token || "" },
-        body: JSON.stringify({ jwt: $session?.access_token }),
-      });
-    } catch {}
-    storeSession(null);
-    setSession(null);
-  };
+  const signOut = () => sessionManager().signOut();
+
+  /** Runs an authenticated request, refreshing the session and retrying once on 401. */
+  const withSession = useCallback(<T,>(request: (accessToken: string) => Promise<T>) => sessionManager().withSession(request), []);
 
-  return { email: $session?.user?.email, open, trigger, setTrigger, setOpen, $session, signIn, signOut };
+  return { email: $session?.user?.email, open, trigger, setTrigger, setOpen, $session, expired, signIn, signOut, withSession };
 };
 
 const AuthDropdown = ({
@@ -155,37 +114,20 @@ const AuthDropdown = ({
     }
 
     try {
-      const res = await fetch(API_URL + "/data/authenticate", {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({
-          email,
-          password,
-          ...(trigger === "register" ? { registering: true } : {}),
-        }),
-      });
-      const json = await res.json();
-
-      if (json?.error) {
-        const err = json.error;
-        const msg = typeof err === "string" ? err : err?.message || err?.code || err?.name || "Authentication failed";
-        toast({ title: "Auth Error", description: msg, variant: "destructive" });
+      let session: Session | null = null;
+      try {
+        session = await spider.authenticate({ email, password, registering: trigger === "register" });
+      } catch (err) {
+        if (!(err instanceof SpiderApiError)) throw err;
+        toast({ title: "Auth Error", description: err.message, variant: "destructive" });
       }
 
-      let session = json?.data?.session ?? json?.data?.user ?? json?.session ?? json?.user;
-
       // If registering and no session returned, try logging in
-      if (trigger === "register" && !session?.access_token) {
-        const loginRes = await fetch(API_URL + "/data/authenticate", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          body: JSON.stringify({ email, password }),
-        });
-        const loginJson = await loginRes.json();
-        session = loginJson?.data?.session ?? loginJson?.data?.user ?? loginJson?.session ?? loginJson?.user;
+      if (trigger === "register" && !session) {
+        session = await spider.authenticate({ email, password }).catch(() => null);
       }
 
-      if (session?.access_token) {
+      if (session) {
         signIn(session);
         toast({ title: "Signed in", description: `Welcome${session.user?.email ? `, ${session.user.email}` : ""}!` });
       }
@@ -195,24 +137,10 @@ const AuthDropdown = ({
     setIsLoading(false);
   };
 
-  const onOAuth = async (provider: "github" | "discord") => {
+  const onOAuth = async (provider: OAuthProvider) => {
     setIsLoading(true);
     try {
-      const res = await fetch(API_URL + "/data/authenticate", {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({
-          [provider]: true,
-          registering: trigger === "register",
-          json: true,
-          redirect_to: window.location.origin,
-        }),
-      });
-      const json = await res.json();
-      const url = json?.data;
-      if (url && typeof url === "string") {
-        window.location.href = url;
-      }
+      window.location.href = await spider.oauthUrl(provider, { registering: trigger === "register", redirectTo: window.location.origin });
     } catch {
       toast({ title: "OAuth error", description: `Could not start ${provider} login.`, variant: "destructive" });
     }
@@ -0,0 +1,144 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import ms from "ms";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { formatBytes, timeAgo, type CrawlRecord, type StoredPage } from "@/lib/storage";
+import { useToast } from "@/components/ui/use-toast";
+import { getCrawls, getPagesByCrawl, deleteCrawl, removeStalePages } from "@/lib/storage-client";
+
+const STATUS_STYLES: Record<CrawlRecord["status"], string> = {
+  running: "border-[#3bde77]/40 text-[#3bde77]",
+  completed: "text-muted-foreground",
+  partial: "border-amber-500/40 text-amber-400",
+  failed: "border-red-500/40 text-red-400",
+};
+
+const CrawlHistory = ({
+  refreshKey,
+  onOpenPage,
+  onRerun,
+  onResume,
+  onDeleted,
+}: {
+  refreshKey: number;
+  onOpenPage: (page: StoredPage) => void;
+  onRerun: (crawl: CrawlRecord) => void;
+  onResume: (crawl: CrawlRecord) => void;
+  onDeleted: () => void;
+}) => {
+  const [crawls, setCrawls] = useState<CrawlRecord[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [pages, setPages] = useState<StoredPage[]>([]);
+  const { toast } = useToast();
+
+  const loadCrawls = useCallback(async () => {
+    try { setCrawls(await getCrawls()); } catch {}
+  }, []);
+
+  useEffect(() => { loadCrawls(); }, [loadCrawls, refreshKey]);
+
+  const inspect = async (crawl: CrawlRecord) => {
+    if (expanded === crawl.id) return setExpanded(null);
+    setExpanded(crawl.id);
+    setPages(await getPagesByCrawl(crawl.id));
+  };
+
+  const remove = async (crawl: CrawlRecord) => {
+    if (!window.confirm(`Delete this crawl and the ${crawl.pageCount} page${crawl.pageCount === 1 ? "" : "s"} it saved?`)) return;
+    await deleteCrawl(crawl.id);
+    if (expanded === crawl.id) setExpanded(null);
+    await loadCrawls();
+    onDeleted();
+  };
+
+  const removeStale = async (crawl: CrawlRecord) => {
+    const count = crawl.stale?.length ?? 0;
+    if (!window.confirm(`Delete the ${count} saved page${count === 1 ? "" : "s"} of ${crawl.scheduledFor} this run did not find? They may only have been missed.`)) return;
+    try {
+      await removeStalePages(crawl.id);
+    } catch (e) {
+      toast({ title: "Could not delete pages", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
+    await loadCrawls();
+    onDeleted();
+  };
+
+  return (
+    <div className="p-6">
+      <div className="max-w-3xl mx-auto">
+        <h2 className="text-2xl font-bold text-center mb-6">Crawl History</h2>
+        {crawls.length === 0 ? (
+          <p className="text-center text-muted-foreground">No crawls yet. Crawl a website to start your history.</p>
+        ) : (
+          <div className="space-y-3">
+            {crawls.map((crawl) => (
+              <div key={crawl.id} className="p-4 border rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium truncate flex-1" title={crawl.urls.join(", ")}>{crawl.urls.join(", ")}</p>
+                  <Badge variant="outline" className={`text-[10px] shrink-0 capitalize ${STATUS_STYLES[crawl.status]}`}>{crawl.status}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {timeAgo(crawl.startedAt)}
+                  {crawl.durationMs != null && ` · ${ms(crawl.durationMs)}`}
+                  {` · ${crawl.pageCount} page${crawl.pageCount === 1 ? "" : "s"}`}
+                  {crawl.failedCount > 0 && <span className="text-red-400">{` · ${crawl.failedCount} failed`}</span>}
+                  {!!crawl.parseErrors && <span className="text-red-400">{` · ${crawl.parseErrors} malformed line${crawl.parseErrors === 1 ? "" : "s"}`}</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Limit {crawl.config.limit} · {crawl.config.return_format} · {crawl.config.request}
+                  {crawl.config.full_resources && " · full resources"}
+                </p>
+                {crawl.changes && crawl.status !== "running" && (
+                  <p className="text-xs text-muted-foreground">
+                    {crawl.scheduledFor && "Scheduled · "}
+                    {crawl.changes.added} added · {crawl.changes.changed} changed · {crawl.changes.removed} removed
+                    {!!crawl.stale?.length && <span className="text-amber-400">{` · ${crawl.stale.length} not found`}</span>}
+                  </p>
+                )}
+                {crawl.error && <p className="text-xs text-red-400">{crawl.error}</p>}
+                <div className="flex gap-2 pt-1">
+                  <Button size="sm" variant="outline" className="text-xs h-7" onClick={() => inspect(crawl)}>
+                    {expanded === crawl.id ? "Hide pages" : "Inspect"}
+                  </Button>
+                  {crawl.status === "partial" && (
+                    <Button size="sm" className="text-xs h-7 bg-[#3bde77] hover:bg-[#2bc866] text-black" onClick={() => onResume(crawl)}>Resume</Button>
+                  )}
+                  <Button size="sm" variant="outline" className="text-xs h-7" disabled={crawl.status === "running"} onClick={() => onRerun(crawl)}>Re-run</Button>
+                  {!!crawl.stale?.length && (
+                    <Button size="sm" variant="outline" className="text-xs h-7 border-amber-500/30 text-amber-400 hover:bg-amber-500/10 hover:text-amber-300" onClick={() => removeStale(crawl)}>Delete not found</Button>
+                  )}
+                  <Button size="sm" variant="outline" className="text-xs h-7 border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300" disabled={crawl.status === "running"} onClick={() => remove(crawl)}>Delete</Button>
+                </div>
+                {expanded === crawl.id && (
+                  <div className="border-t pt-2 space-y-0.5 max-h-72 overflow-auto">
+                    {pages.length === 0 ? (
+                      <p className="text-xs text-muted-foreground py-1">No stored pages belong to this crawl anymore.</p>
+                    ) : pages.map((page) => (
+                      <button key={page.url} className="flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-xs hover:bg-muted/50" onClick={() => onOpenPage(page)}>
+                        <span className="truncate flex-1">{page.url}</span>
+                        {page.status != null && <span className={`tabular-nums ${page.status >= 400 ? "text-red-400" : "text-muted-foreground"}`}>{page.status}</span>}
+                        <span className="text-muted-foreground tabular-nums">{formatBytes(page.contentSize)}</span>
+                      </button>
+                    ))}
+                    {!!crawl.stale?.length && (
+                      <>
+                        <p className="text-xs text-amber-400 px-2 pt-2">Saved pages this run did not find</p>
+                        {crawl.stale.map((url) => (
+                          <p key={url} className="truncate px-2 py-1 text-xs text-muted-foreground">{url}</p>
+                        ))}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CrawlHistory;
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { formatBytes, isFailedPage, type StoredPage } from "@/lib/storage";
+import type { CrawlProgress as Progress } from "./searchbar";
+
+// Rows within this many pixels of the bottom keep following new pages.
+const FOLLOW_THRESHOLD = 48;
+
+const CrawlProgress = ({
+  progress,
+  pages,
+  onOpenPage,
+}: {
+  progress: Progress;
+  pages: StoredPage[];
+  onOpenPage: (page: StoredPage) => void;
+}) => {
+  const { crawl, expected, paused } = progress;
+  const running = crawl.status === "running";
+  const [now, setNow] = useState(Date.now());
+  const listRef = useRef<HTMLDivElement>(null);
+  const following = useRef(true);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && following.current) list.scrollTop = list.scrollHeight;
+  }, [pages.length]);
+
+  const errors = pages.filter(isFailedPage).length + progress.unreadable;
+  const bytes = pages.reduce((sum, p) => sum + p.contentSize, 0);
+  const elapsed = Math.max(1, ((running ? now : crawl.finishedAt ?? now) - crawl.startedAt) / 1000);
+  const rate = pages.length / elapsed;
+  const percent = expected ? Math.min(100, (pages.length / expected) * 100) : 0;
+
+  return (
+    <div className="p-6 h-full flex flex-col">
+      <div className="max-w-3xl w-full mx-auto flex flex-col flex-1 min-h-0 gap-4">
+        <div className="flex items-center gap-2">
+          <h2 className="text-2xl font-bold flex-1 truncate" title={crawl.urls.join(", ")}>{crawl.urls.join(", ")}</h2>
+          <Badge variant="outline" className="text-[10px] shrink-0 capitalize">{running && paused ? "paused" : crawl.status}</Badge>
+        </div>
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span className="tabular-nums">
+              {pages.length} / {expected} pages
+              {progress.saving && ` · ${progress.saving.stage} ${progress.saving.done}/${progress.saving.total}`}
+            </span>
+            <span className="tabular-nums">{rate.toFixed(1)} pages/s · {formatBytes(bytes)}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+            <div className={`h-full rounded-full bg-[#3bde77] transition-all ${running && !paused ? "animate-pulse" : ""}`} style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="rounded-lg border bg-muted/30 p-2.5 text-center">
+            <p className="text-lg font-bold tabular-nums">{pages.length}</p>
+            <p className="text-[10px] text-muted-foreground">Received</p>
+          </div>
+          <div className="rounded-lg border bg-muted/30 p-2.5 text-center">
+            <p className="text-lg font-bold tabular-nums">{rate.toFixed(1)}</p>
+            <p className="text-[10px] text-muted-foreground">Pages / second</p>
+          </div>
+          <div className="rounded-lg border bg-muted/30 p-2.5 text-center">
+            <p className={`text-lg font-bold tabular-nums ${errors ? "text-red-400" : ""}`}>{errors}</p>
+            <p className="text-[10px] text-muted-foreground">Errors{progress.unreadable > 0 && ` (${progress.unreadable} unreadable)`}</p>
+          </div>
+        </div>
+        <div
+          ref={listRef}
+          className="flex-1 min-h-0 overflow-auto border rounded-lg p-1 space-y-0.5"
+          onScroll={(e) => {
+            const list = e.currentTarget;
+            following.current = list.scrollHeight - list.scrollTop - list.clientHeight < FOLLOW_THRESHOLD;
+          }}
+        >
+          {pages.length === 0 ? (
+            <p className="text-xs text-muted-foreground p-2">{running ? "Waiting for the first page..." : "No pages were received."}</p>
+          ) : pages.map((page, i) => (
+            <button key={`${i}-${page.url}`} className="flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-xs hover:bg-muted/50" onClick={() => onOpenPage(page)}>
+              <span className={`tabular-nums w-8 shrink-0 ${isFailedPage(page) ? "text-red-400" : "text-muted-foreground"}`}>{page.status ?? (page.error ? "ERR" : "—")}</span>
+              <span className="truncate flex-1" title={page.error || page.url}>{page.url}</span>
+              <span className="text-muted-foreground tabular-nums shrink-0">{formatBytes(page.contentSize)}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrawlProgress;
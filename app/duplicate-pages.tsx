@@ -0,0 +1,130 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { formatBytes, timeAgo, type StoredPage } from "@/lib/storage";
+import { useToast } from "@/components/ui/use-toast";
+import { deletePages, getDuplicateClusters, getStorageSettings } from "@/lib/storage-client";
+
+/** The copy worth keeping: the one that names itself canonical, else the shortest URL, else the newest. */
+function pickKeeper(pages: StoredPage[]): string {
+  const canonical = pages.find((p) => p.canonical === p.url);
+  if (canonical) return canonical.url;
+  return [...pages].sort((a, b) => a.url.length - b.url.length || b.timestamp - a.timestamp)[0].url;
+}
+
+const DuplicatePages = ({
+  refreshKey,
+  onOpenPage,
+  onDeleted,
+}: {
+  refreshKey: number;
+  onOpenPage: (page: StoredPage) => void;
+  onDeleted: () => void;
+}) => {
+  const [clusters, setClusters] = useState<StoredPage[][]>([]);
+  // Kept page per cluster, keyed by the cluster's first URL.
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [deleting, setDeleting] = useState(false);
+  const [pinned, setPinned] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    try {
+      const [found, settings] = await Promise.all([getDuplicateClusters(), getStorageSettings()]);
+      setPinned(new Set(settings.pinnedDomains));
+      setClusters(found);
+      setKeepers(Object.fromEntries(found.map((cluster) => [cluster[0].url, pickKeeper(cluster)])));
+    } catch {}
+  }, []);
+
+  useEffect(() => { load(); }, [load, refreshKey]);
+
+  const duplicatesOf = (cluster: StoredPage[]) => cluster.filter((p) => p.url !== keepers[cluster[0].url]);
+
+  const remove = async (pages: StoredPage[], message: string) => {
+    if (!window.confirm(message)) return;
+    setDeleting(true);
+    try {
+      await deletePages(pages.map((p) => p.url));
+      onDeleted();
+      await load();
+    } catch (e) {
+      toast({ title: "Could not delete pages", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const plural = (n: number) => `${n} page${n === 1 ? "" : "s"}`;
+  // Deleting everything at once leaves pinned domains alone; they can still be cleaned up one cluster at a time.
+  const allDuplicates = clusters.flatMap(duplicatesOf);
+  const unpinnedDuplicates = allDuplicates.filter((p) => !pinned.has(p.domain));
+  const skipped = allDuplicates.length - unpinnedDuplicates.length;
+
+  const removeAll = () => remove(
+    unpinnedDuplicates,
+    `Delete ${plural(unpinnedDuplicates.length)}, keeping the selected copy in each group?${skipped ? ` ${plural(skipped)} from pinned domains will be kept.` : ""}`
+  );
+
+  const removeCluster = (cluster: StoredPage[]) => {
+    const pages = duplicatesOf(cluster);
+    const pinnedCount = pages.filter((p) => pinned.has(p.domain)).length;
+    remove(pages, `Delete ${plural(pages.length)} of this group?${pinnedCount ? ` ${plural(pinnedCount)} from pinned domains will be deleted too.` : ""}`);
+  };
+
+  return (
+    <div className="p-6">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold">Duplicate Pages</h2>
+          {unpinnedDuplicates.length > 0 && (
+            <Button size="sm" className="text-xs bg-[#3bde77] hover:bg-[#2bc866] text-black" disabled={deleting} onClick={removeAll}>
+              Delete all duplicates ({unpinnedDuplicates.length})
+            </Button>
+          )}
+        </div>
+        {clusters.length === 0 ? (
+          <p className="text-center text-muted-foreground">No near-duplicate pages. Print views, language variants and copied docs show up here.</p>
+        ) : (
+          <div className="space-y-3">
+            {clusters.map((cluster) => {
+              const key = cluster[0].url;
+              return (
+                <div key={key} className="p-4 border rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate flex-1" title={cluster[0].title || key}>{cluster[0].title || key}</p>
+                    <Badge variant="outline" className="text-[10px] shrink-0 tabular-nums">{cluster.length}</Badge>
+                  </div>
+                  <div className="space-y-0.5">
+                    {cluster.map((page) => (
+                      <div key={page.url} className="flex items-center gap-2 rounded-md px-2 py-1 text-xs hover:bg-muted/50">
+                        <input
+                          type="radio"
+                          name={key}
+                          className="accent-[#3bde77] shrink-0"
+                          title="Keep this copy"
+                          checked={keepers[key] === page.url}
+                          onChange={() => setKeepers((prev) => ({ ...prev, [key]: page.url }))}
+                        />
+                        <button className="truncate flex-1 text-left" onClick={() => onOpenPage(page)}>{page.url}</button>
+                        {pinned.has(page.domain) && <Badge variant="outline" className="text-[10px] shrink-0">Pinned</Badge>}
+                        <span className="text-muted-foreground shrink-0">{formatBytes(page.contentSize)} · {timeAgo(page.timestamp)}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <Button size="sm" variant="outline" className="text-xs h-7" disabled={deleting} onClick={() => removeCluster(cluster)}>
+                    Keep selected, delete {cluster.length - 1}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatePages;
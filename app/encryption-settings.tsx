@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogOverlay,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import type { EncryptionStatus, TaskProgress } from "@/lib/storage";
+import { disableEncryption, enableEncryption, getEncryptionStatus, updateStorageSettings } from "@/lib/storage-client";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+
+const PassphraseDialog = ({
+  action,
+  onDone,
+  onClose,
+  onRunningChange,
+}: {
+  action: "enable" | "disable";
+  onDone: () => void;
+  onClose: () => void;
+  onRunningChange: (running: boolean) => void;
+}) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const enabling = action === "enable";
+  const running = progress !== null;
+
+  const submit = async () => {
+    if (enabling && passphrase.length < MIN_PASSPHRASE_LENGTH) return setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    if (enabling && passphrase !== confirmation) return setError("The passphrases do not match.");
+    setError(null);
+    setProgress({ stage: enabling ? "Deriving key" : "Checking passphrase", done: 0, total: 0 });
+    onRunningChange(true);
+    try {
+      await (enabling ? enableEncryption : disableEncryption)(passphrase, { onProgress: setProgress });
+      onDone();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setProgress(null);
+    } finally {
+      onRunningChange(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open && !running) onClose(); }}>
+      <DialogOverlay />
+      <DialogContent className="p-4 rounded-md shadow-md">
+        <DialogHeader>
+          <DialogTitle>{enabling ? "Encrypt page content" : "Turn off encryption"}</DialogTitle>
+          <DialogDescription>
+            {enabling
+              ? "Pages, their search index and version history are encrypted with a key derived from this passphrase. It cannot be recovered: if you forget it, the encrypted pages are lost."
+              : "Enter your passphrase to decrypt every saved page and store them unencrypted again."}
+          </DialogDescription>
+        </DialogHeader>
+        <form className="flex flex-col gap-3" onSubmit={(e) => { e.preventDefault(); submit(); }}>
+          <Input type="password" autoFocus autoComplete={enabling ? "new-password" : "current-password"} placeholder="Passphrase" aria-label="Passphrase" value={passphrase} disabled={running} onChange={(e) => setPassphrase(e.currentTarget.value)} />
+          {enabling && (
+            <Input type="password" autoComplete="new-password" placeholder="Repeat passphrase" aria-label="Repeat passphrase" value={confirmation} disabled={running} onChange={(e) => setConfirmation(e.currentTarget.value)} />
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {progress && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-muted-foreground">
+                <span>{progress.stage}</span>
+                {progress.total > 0 && <span className="tabular-nums">{progress.done} / {progress.total}</span>}
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                <div className="h-full rounded-full bg-[#3bde77]" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+              </div>
+            </div>
+          )}
+          <Button type="submit" className="self-end" disabled={!passphrase || running}>
+            {running ? (enabling ? "Encrypting..." : "Decrypting...") : enabling ? "Encrypt" : "Turn off"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/** Sidebar controls for encrypting page content at rest with a passphrase. */
+const EncryptionSettings = ({
+  status,
+  autoLockMinutes,
+  disabled,
+  onChange,
+  onLock,
+  onAutoLockChange,
+  onConvertingChange,
+}: {
+  status: EncryptionStatus;
+  autoLockMinutes: number;
+  /** Set while a crawl is saving pages. */
+  disabled: boolean;
+  onChange: (status: EncryptionStatus) => void;
+  onLock: () => void;
+  onAutoLockChange: (minutes: number) => void;
+  /** Set while every saved page is being encrypted or decrypted. */
+  onConvertingChange: (converting: boolean) => void;
+}) => {
+  const [action, setAction] = useState<"enable" | "disable" | null>(null);
+
+  return (
+    <div>
+      <h3 className="font-semibold text-xs text-muted-foreground uppercase tracking-wider mb-2">Encryption</h3>
+      {status.enabled ? (
+        <div className="space-y-1.5">
+          <p className="text-[10px] text-muted-foreground">Page content is encrypted with your passphrase.</p>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] text-muted-foreground shrink-0">Lock after</span>
+            <Select
+              value={String(autoLockMinutes)}
+              onValueChange={async (v) => { onAutoLockChange(Number(v)); await updateStorageSettings({ autoLockMinutes: Number(v) }); }}
+            >
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_LOCK_OPTIONS.map((n) => (
+                  <SelectItem key={n} value={String(n)}>{n} min idle</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-1">
+            <Button size="sm" variant="outline" className="text-xs h-8" onClick={onLock}>Lock now</Button>
+            <Button size="sm" variant="outline" className="text-xs h-8" disabled={disabled} onClick={() => setAction("disable")}>Turn off</Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-1.5">
+          <p className="text-[10px] text-muted-foreground">Page content is stored unencrypted in this browser.</p>
+          <Button size="sm" variant="outline" className="w-full text-xs h-8" disabled={disabled} onClick={() => setAction("enable")}>Encrypt with a passphrase</Button>
+        </div>
+      )}
+      {action && (
+        <PassphraseDialog
+          action={action}
+          onClose={() => setAction(null)}
+          onRunningChange={onConvertingChange}
+          onDone={() => {
+            setAction(null);
+            getEncryptionStatus().then(onChange).catch(console.error);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EncryptionSettings;
@@ -0,0 +1,104 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { timeAgo, type CrawlRecord, type StoredPage } from "@/lib/storage";
+import { getFailedPages, getCrawls } from "@/lib/storage-client";
+
+interface FailureGroup {
+  label: string;
+  pages: StoredPage[];
+}
+
+/** Groups by error message when there is one, otherwise by status code. */
+function groupFailures(pages: StoredPage[]): FailureGroup[] {
+  const groups = new Map<string, StoredPage[]>();
+  for (const page of pages) {
+    const label = page.error?.trim() || (page.status != null ? `HTTP ${page.status}` : "Unknown error");
+    groups.set(label, [...(groups.get(label) || []), page]);
+  }
+  return Array.from(groups, ([label, pages]) => ({ label, pages })).sort((a, b) => b.pages.length - a.pages.length);
+}
+
+const FailedPages = ({
+  refreshKey,
+  onOpenPage,
+  onRetry,
+}: {
+  refreshKey: number;
+  onOpenPage: (page: StoredPage) => void;
+  onRetry: (urls: string[]) => void;
+}) => {
+  const [groups, setGroups] = useState<FailureGroup[]>([]);
+  const [malformed, setMalformed] = useState<CrawlRecord[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setGroups(groupFailures(await getFailedPages()));
+      setMalformed((await getCrawls()).filter((c) => c.parseErrors));
+    } catch {}
+  }, []);
+
+  useEffect(() => { load(); }, [load, refreshKey]);
+
+  const total = groups.reduce((sum, g) => sum + g.pages.length, 0);
+
+  return (
+    <div className="p-6">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold">Failed Pages</h2>
+          {total > 0 && (
+            <Button size="sm" className="text-xs bg-[#3bde77] hover:bg-[#2bc866] text-black" onClick={() => onRetry(groups.flatMap((g) => g.pages.map((p) => p.url)))}>
+              Retry all ({total})
+            </Button>
+          )}
+        </div>
+        {total === 0 ? (
+          <p className="text-center text-muted-foreground">No failed pages. Pages that return an error or a non-2xx status show up here.</p>
+        ) : (
+          <div className="space-y-3">
+            {groups.map((group) => (
+              <div key={group.label} className="p-4 border rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium truncate flex-1 text-red-400" title={group.label}>{group.label}</p>
+                  <Badge variant="outline" className="text-[10px] shrink-0 tabular-nums">{group.pages.length}</Badge>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" className="text-xs h-7" onClick={() => setExpanded(expanded === group.label ? null : group.label)}>
+                    {expanded === group.label ? "Hide pages" : "Show pages"}
+                  </Button>
+                  <Button size="sm" variant="outline" className="text-xs h-7" onClick={() => onRetry(group.pages.map((p) => p.url))}>Retry</Button>
+                </div>
+                {expanded === group.label && (
+                  <div className="border-t pt-2 space-y-0.5 max-h-72 overflow-auto">
+                    {group.pages.map((page) => (
+                      <button key={page.url} className="flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-xs hover:bg-muted/50" onClick={() => onOpenPage(page)}>
+                        <span className="truncate flex-1">{page.url}</span>
+                        <span className="text-muted-foreground shrink-0">{timeAgo(page.timestamp)}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {malformed.length > 0 && (
+          <div className="mt-6 space-y-1">
+            <h3 className="font-semibold text-xs text-muted-foreground uppercase tracking-wider">Unreadable stream lines</h3>
+            {malformed.map((crawl) => (
+              <p key={crawl.id} className="text-xs text-muted-foreground">
+                {crawl.urls.join(", ")} · {timeAgo(crawl.startedAt)} · <span className="text-red-400">{crawl.parseErrors} malformed line{crawl.parseErrors === 1 ? "" : "s"}</span>
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FailedPages;
@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogOverlay,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import type { ImportConflictPolicy, ImportPlan, TaskProgress } from "@/lib/storage";
+import type { ParsedImport } from "@/lib/import";
+import { importPages, parseImportFile, planImport } from "@/lib/storage-client";
+
+const FORMAT_LABELS: Record<ParsedImport["format"], string> = {
+  json: "JSON export",
+  jsonl: "Spider JSONL",
+  csv: "CSV",
+};
+
+const PREVIEW_ROWS = 5;
+
+const ImportDialog = ({ onClose }: { onClose: (imported: boolean) => void }) => {
+  const { toast } = useToast();
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [conflict, setConflict] = useState<ImportConflictPolicy>("newer");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+
+  useEffect(() => {
+    setPlan(null);
+    if (parsed) planImport(parsed.pages, conflict).then(setPlan).catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [parsed, conflict]);
+
+  const readFile = async (file: File | undefined) => {
+    setParsed(null);
+    setError(null);
+    if (!file) return;
+    setReading(true);
+    try {
+      setParsed(await parseImportFile(file.name, await file.text(), file.lastModified));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!parsed) return;
+    setProgress({ stage: "Importing", done: 0, total: 0 });
+    try {
+      const result = await importPages(parsed.pages, { conflict, onProgress: setProgress });
+      toast({
+        title: "Import complete",
+        description: `${result.added} added, ${result.replaced} replaced, ${result.skipped} skipped${result.evicted.length ? `, ${result.evicted.length} older pages evicted` : ""}.`,
+      });
+      if (result.embeddingError) {
+        toast({ title: "Embedding endpoint unavailable", description: `${result.embeddingError}. Imported pages use local embeddings only.` });
+      }
+      onClose(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setProgress(null);
+    }
+  };
+
+  const importing = progress !== null;
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open && !importing) onClose(false); }}>
+      <DialogOverlay />
+      <DialogContent className="p-4 rounded-md shadow-md">
+        <DialogHeader>
+          <DialogTitle>Import pages</DialogTitle>
+          <DialogDescription>Load a JSON export, Spider JSONL crawl output, or a CSV with url and content columns.</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-3">
+          <Input type="file" accept=".json,.jsonl,.ndjson,.csv" disabled={importing} onChange={(e) => readFile(e.currentTarget.files?.[0])} />
+          <div className="flex items-center">
+            <Label className="flex-1">Already saved:</Label>
+            <Select value={conflict} onValueChange={(v) => setConflict(v as ImportConflictPolicy)} disabled={importing}>
+              <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newer">Keep newer</SelectItem>
+                <SelectItem value="skip">Skip</SelectItem>
+                <SelectItem value="overwrite">Overwrite</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {reading && <p className="text-xs text-muted-foreground">Reading file...</p>}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {parsed && (
+            <div className="rounded-md border p-3 space-y-2 text-xs">
+              <p>
+                <span className="font-medium">{FORMAT_LABELS[parsed.format]}</span>
+                {plan
+                  ? ` · ${plan.total} pages: ${plan.added} new, ${plan.replaced} replaced, ${plan.skipped} skipped`
+                  : " · checking for saved pages..."}
+              </p>
+              {parsed.invalid > 0 && <p className="text-red-400">{parsed.invalid} row{parsed.invalid === 1 ? "" : "s"} without a readable URL will be ignored.</p>}
+              <div className="space-y-0.5 text-muted-foreground">
+                {parsed.pages.slice(0, PREVIEW_ROWS).map((page) => (
+                  <p key={page.url} className="truncate" title={page.url}>
+                    {page.url}
+                    {page.status != null && ` · ${page.status}`}
+                    {page.timestamp != null && ` · ${new Date(page.timestamp).toLocaleDateString()}`}
+                  </p>
+                ))}
+                {parsed.pages.length > PREVIEW_ROWS && <p>and {parsed.pages.length - PREVIEW_ROWS} more</p>}
+              </div>
+            </div>
+          )}
+          {progress && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-muted-foreground">
+                <span>{progress.stage}</span>
+                <span className="tabular-nums">{progress.done} / {progress.total}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                <div className="h-full rounded-full bg-[#3bde77]" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+              </div>
+            </div>
+          )}
+          <Button type="button" onClick={runImport} className="self-end" disabled={!plan || importing || plan.added + plan.replaced === 0}>
+            {importing ? "Importing..." : plan ? `Import ${plan.added + plan.replaced} pages` : "Import"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
@@ -1,10 +1,24 @@
 "use client";
 
-import { lazy, Suspense, useCallback, useEffect, useState } from "react";
-import SearchBar from "./searchbar";
+import { useCallback, useEffect, useRef, useState } from "react";
+import SearchBar, { type CrawlProgress as Progress, type SearchBarHandle } from "./searchbar";
+import CrawlProgress from "./crawl-progress";
+import CrawlHistory from "./crawl-history";
+import FailedPages from "./failed-pages";
+import DuplicatePages from "./duplicate-pages";
+import ScheduleDialog from "./schedule-dialog";
+import OrphanPagesDialog from "./orphan-pages-dialog";
+import ImportDialog from "./import-dialog";
+import PageViewer from "./page-viewer";
+import WorkspaceSwitcher from "./workspace-switcher";
+import EncryptionSettings from "./encryption-settings";
+import UnlockDialog from "./unlock-dialog";
+import LegacyDataDialog from "./legacy-data-dialog";
+import { useSessionUser } from "./auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
 import {
   Select,
   SelectContent,
@@ -12,11 +26,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { getSavedDomains, getPagesByDomain, clearDomain, clearAll, formatBytes, timeAgo, type DomainInfo, type StoredPage } from "@/lib/storage";
+import { getSavedDomains, getPagesByDomain, getPage, searchPages, searchSemantic, searchHybrid, suggestQuery, clearDomain, clearAll, markPageViewed, getStorageUsage, getStorageSettings, updateStorageSettings, setDomainPinned, recoverInterruptedCrawls, claimDueSchedule, selectDatabase, deleteDatabase, getEncryptionStatus, lockEncryption } from "@/lib/storage-client";
+import { MigrationError, formatBytes, timeAgo, type CrawlRecord, type DomainInfo, type EncryptionStatus, type EvictionPolicy, type StorageUsage, type SearchMode, type SearchResult, type StoredPage } from "@/lib/storage";
+import { EncryptionLockedError } from "@/lib/encryption";
+import { pageText, pageTitle, passageText, type Passage } from "@/lib/extract";
+import { createVault } from "@/lib/vault";
+import { claimLegacyDatabase, hasUnclaimedLegacyDatabase, listWorkspaces, setActiveWorkspace, type Workspace, type WorkspaceList } from "@/lib/workspaces";
+import { parseQuery, positiveTerms, QueryParseError } from "@/lib/query";
 
-type ExportFormat = "json" | "csv" | "markdown" | "html";
+type ExportFormat = "json" | "csv" | "markdown" | "obsidian" | "html";
 
-function downloadBlob(content: string, filename: string, mimeType: string) {
+function downloadBlob(content: string | Blob, filename: string, mimeType: string) {
   const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
@@ -39,7 +59,7 @@ async function exportPages(pages: StoredPage[], format: ExportFormat, filenamePr
   const timestamp = new Date().toISOString().slice(0, 10);
   switch (format) {
     case "json": {
-      const data = pages.map((p) => ({ url: p.url, content: p.content, status: p.status, domain: p.domain, timestamp: p.timestamp }));
+      const data = pages.map((p) => ({ url: p.url, content: p.content, error: p.error, status: p.status, domain: p.domain, timestamp: p.timestamp }));
       downloadBlob(JSON.stringify(data, null, 2), `${filenamePrefix}-${timestamp}.json`, "application/json");
       break;
     }
@@ -51,13 +71,19 @@ async function exportPages(pages: StoredPage[], format: ExportFormat, filenamePr
     }
     case "markdown": {
       const lines = pages.map((p) => {
-        const title = p.content.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]?.trim() || p.url;
-        const text = p.content.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
-        return `## ${title}\n\n**URL:** ${p.url}\n\n${text.slice(0, 2000)}${text.length > 2000 ? "..." : ""}\n\n---\n`;
+        const title = pageTitle(p) || p.url;
+        const text = pageText(p).replace(/\n/g, "\n\n");
+        const description = p.description ? `> ${p.description}\n\n` : "";
+        return `## ${title}\n\n**URL:** ${p.url}\n\n${description}${text.slice(0, 2000)}${text.length > 2000 ? "..." : ""}\n\n---\n`;
       });
       downloadBlob(lines.join("\n"), `${filenamePrefix}-${timestamp}.md`, "text/markdown");
       break;
     }
+    case "obsidian": {
+      const name = `${filenamePrefix}-${timestamp}`;
+      downloadBlob(createVault(pages, name), `${name}.zip`, "application/zip");
+      break;
+    }
     case "html": {
       const htmlPages = pages.map((p) => `<!-- URL: ${p.url} -->\n${p.content}`).join("\n\n<hr/>\n\n");
       const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${filenamePrefix} Export</title></head><body>\n${htmlPages}\n</body></html>`;
@@ -67,51 +93,254 @@ async function exportPages(pages: StoredPage[], format: ExportFormat, filenamePr
   }
 }
 
-const MonacoEditor = lazy(() => import("@monaco-editor/react").then((m) => ({ default: m.default })));
+// Below this many results the search form offers a "did you mean" respelling.
+const FEW_RESULTS = 3;
+
+// How often open tabs look for a scheduled re-crawl that is due.
+const SCHEDULE_CHECK_MS = 60 * 1000;
+
+// Input that counts as activity and postpones the auto-lock.
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
 
 export default function KnowledgeBase() {
-  const [data, setData] = useState<any[] | null>(null);
-  const [mode, setMode] = useState<"crawl" | "search">("search");
+  const userId = useSessionUser();
+  const [opened, setOpened] = useState<{ userId: string | null; list: WorkspaceList } | null>(null);
+
+  // Storage calls go to the last selected database, so select it before the workspace renders.
+  const openWorkspaces = useCallback((owner: string | null, list: WorkspaceList, removed?: Workspace) => {
+    selectDatabase(list.active.dbName).catch(console.error);
+    if (removed) deleteDatabase(removed.dbName).catch(console.error);
+    setOpened({ userId: owner, list });
+  }, []);
+
+  // The database from before workspaces only joins a list once someone asks for it.
+  const [askLegacy, setAskLegacy] = useState(false);
+
+  useEffect(() => {
+    if (userId === undefined) return;
+    let cancelled = false;
+    setAskLegacy(false);
+    hasUnclaimedLegacyDatabase()
+      .catch(() => false)
+      .then((unclaimed) => {
+        if (cancelled) return;
+        if (unclaimed) setAskLegacy(true);
+        openWorkspaces(userId, listWorkspaces(userId));
+      });
+    return () => { cancelled = true; };
+  }, [userId, openWorkspaces]);
+
+  if (userId === undefined || !opened || opened.userId !== userId) return null;
+  // A fresh view per workspace, so nothing loaded from the previous one stays on screen.
+  return (
+    <>
+      <WorkspaceView
+        key={opened.list.active.dbName}
+        userId={userId}
+        workspaces={opened.list}
+        onWorkspacesChange={(list, removed) => openWorkspaces(userId, list, removed)}
+      />
+      {askLegacy && (
+        <LegacyDataDialog
+          signedIn={userId !== null}
+          onAdopt={() => {
+            setAskLegacy(false);
+            const list = claimLegacyDatabase(userId);
+            if (list) openWorkspaces(userId, list);
+          }}
+          onKeepSignedOut={() => {
+            setAskLegacy(false);
+            claimLegacyDatabase(null);
+          }}
+          onClose={() => setAskLegacy(false)}
+        />
+      )}
+    </>
+  );
+}
+
+function WorkspaceView({
+  userId,
+  workspaces,
+  onWorkspacesChange,
+}: {
+  userId: string | null;
+  workspaces: WorkspaceList;
+  onWorkspacesChange: (list: WorkspaceList, removed?: Workspace) => void;
+}) {
+  const { toast } = useToast();
+  const [data, setData] = useState<StoredPage[] | null>(null);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [mode, setMode] = useState<"crawl" | "search" | "history" | "failed" | "duplicates">("search");
+  const [historyKey, setHistoryKey] = useState(0);
+  const searchBarRef = useRef<SearchBarHandle>(null);
   const [searchQuery, setSearchQuery] = useState("");
-  const [searchResults, setSearchResults] = useState<StoredPage[]>([]);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const [searchMode, setSearchMode] = useState<SearchMode>("keyword");
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [domains, setDomains] = useState<DomainInfo[]>([]);
   const [selectedPage, setSelectedPage] = useState<StoredPage | null>(null);
+  const [selectedPassage, setSelectedPassage] = useState<Passage | undefined>();
   const [exportFormat, setExportFormat] = useState<ExportFormat>("json");
   const [exporting, setExporting] = useState(false);
 
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [evictionPolicy, setEvictionPolicy] = useState<EvictionPolicy>("oldest-crawl");
+  const [versionRetention, setVersionRetention] = useState(5);
+
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [interrupted, setInterrupted] = useState<CrawlRecord[]>([]);
+  const [scheduling, setScheduling] = useState<DomainInfo | null>(null);
+  const [orphansDomain, setOrphansDomain] = useState<string | null>(null);
+  const [expandedSimilar, setExpandedSimilar] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [encryption, setEncryption] = useState<EncryptionStatus | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(15);
+  const locked = !!encryption?.enabled && !encryption.unlocked;
+  const lockedRef = useRef(false);
+  lockedRef.current = locked;
+  const crawling = progress?.crawl.status === "running";
+  // Set while every saved page is encrypted or decrypted; nothing locks or switches workspace meanwhile.
+  const [converting, setConverting] = useState(false);
+  const convertingRef = useRef(false);
+  convertingRef.current = converting;
+
   const loadDomains = useCallback(async () => {
-    try { setDomains(await getSavedDomains()); } catch {}
+    try {
+      setDomains(await getSavedDomains());
+      setUsage(await getStorageUsage());
+    } catch (e) {
+      if (e instanceof MigrationError) setStorageError(e.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    getStorageSettings().then((s) => {
+      setEvictionPolicy(s.evictionPolicy);
+      setVersionRetention(s.versionRetention);
+      setAutoLockMinutes(s.autoLockMinutes);
+    }).catch(() => {});
   }, []);
 
+  const loadEncryption = useCallback(() => {
+    getEncryptionStatus().then(setEncryption).catch(console.error);
+  }, []);
+
+  useEffect(() => { loadEncryption(); }, [loadEncryption]);
+
+  // Decrypted pages go off screen along with the key.
+  const lock = useCallback(async () => {
+    await lockEncryption();
+    setSelectedPage(null);
+    setSearchResults([]);
+    setData(null);
+    loadEncryption();
+  }, [loadEncryption]);
+
+  // Locks after a stretch without input. A running crawl counts as activity, since its
+  // pages could not be saved once locked, and so does turning encryption on or off.
+  useEffect(() => {
+    if (!encryption?.unlocked || crawling || converting) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => { lock().catch(console.error); }, autoLockMinutes * 60 * 1000);
+    };
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, restart, { passive: true }));
+    restart();
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, restart));
+    };
+  }, [encryption?.unlocked, crawling, converting, autoLockMinutes, lock]);
+
+  const openUrl = async (url: string) => {
+    const page = await getPage(url);
+    if (page) openPage(page);
+  };
+
+  const openPage = (page: StoredPage, passage?: Passage) => {
+    setSelectedPage(page);
+    setSelectedPassage(passage);
+    markPageViewed(page.url).catch(() => {});
+  };
+
   useEffect(() => { loadDomains(); }, [loadDomains]);
 
-  const search = async () => {
-    if (!searchQuery.trim()) return;
-    const lowerQuery = searchQuery.toLowerCase().split(/\s+/);
-    const results: (StoredPage & { relevance: number })[] = [];
-    for (const domain of domains) {
-      const pages = await getPagesByDomain(domain.domain);
-      for (const page of pages) {
-        const text = (page.content || "").toLowerCase();
-        const matches = lowerQuery.filter((term) => text.includes(term)).length;
-        if (matches > 0) results.push({ ...page, relevance: matches / lowerQuery.length });
-      }
+  useEffect(() => {
+    recoverInterruptedCrawls().then((crawls) => {
+      setInterrupted(crawls);
+      if (crawls.length) setHistoryKey((k) => k + 1);
+    }).catch(() => {});
+  }, []);
+
+  // SearchBar keeps the callback from when a crawl started, so compare against a ref.
+  const progressCrawlId = useRef<string | null>(null);
+  const onProgress = (next: Progress) => {
+    if (next.crawl.id !== progressCrawlId.current) setMode("crawl");
+    progressCrawlId.current = next.crawl.id;
+    setProgress(next);
+  };
+
+  useEffect(() => {
+    const check = async () => {
+      const bar = searchBarRef.current;
+      if (!bar?.isIdle() || lockedRef.current || convertingRef.current) return;
+      const schedule = await claimDueSchedule();
+      if (schedule) await bar.runSchedule(schedule);
+    };
+    const tick = () => { check().catch(console.error); };
+    tick();
+    const timer = setInterval(tick, SCHEDULE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const resumeCrawl = (crawl: CrawlRecord) => {
+    setInterrupted((prev) => prev.filter((c) => c.id !== crawl.id));
+    searchBarRef.current?.resumeCrawl(crawl);
+  };
+
+  const search = async (query = searchQuery) => {
+    if (!query.trim()) return;
+    setSuggestion(null);
+    try {
+      const { results, embeddingError } = searchMode === "semantic" ? await searchSemantic(query, 50)
+        : searchMode === "hybrid" ? await searchHybrid(query, 50)
+        : { results: await searchPages(query, 50), embeddingError: undefined };
+      setSearchResults(results);
+      setQueryError(null);
+      if (embeddingError) toast({ title: "Embedding endpoint unavailable", description: `${embeddingError}. Results use local embeddings only.` });
+      if (searchMode !== "semantic" && results.length < FEW_RESULTS) setSuggestion(await suggestQuery(query));
+    } catch (e) {
+      if (e instanceof EncryptionLockedError) return loadEncryption();
+      setSearchResults([]);
+      if (e instanceof QueryParseError) setQueryError(`${e.message} (column ${e.position + 1})`);
+      else toast({ title: "Search failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
     }
-    results.sort((a, b) => b.relevance - a.relevance);
-    setSearchResults(results.slice(0, 50));
   };
 
-  const getSnippet = (content: string, query: string): string => {
-    const text = content.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ");
-    const idx = text.toLowerCase().indexOf(query.toLowerCase().split(/\s+/)[0]);
-    if (idx === -1) return text.slice(0, 200) + "...";
+  const getSnippet = (page: SearchResult, query: string): string => {
+    const { passage } = page;
+    const text = (passage ? passageText(page, passage) : pageText(page)).replace(/\s+/g, " ");
+    let terms: string[] = [];
+    try { terms = positiveTerms(parseQuery(query)); } catch {}
+    const lower = text.toLowerCase();
+    const idx = terms.reduce((found, term) => (found !== -1 ? found : lower.indexOf(term)), -1);
+    if (idx === -1) return (!passage?.index && page.description) || text.slice(0, 200) + "...";
     const start = Math.max(0, idx - 80);
     return (start > 0 ? "..." : "") + text.slice(start, start + 200) + "...";
   };
 
-  const getTitle = (content: string, url: string): string => {
-    const match = content.match(/<title[^>]*>([^<]*)<\/title>/i) || content.match(/^#\s+(.+)/m);
-    return match?.[1]?.trim() || new URL(url).pathname;
+  const getTitle = (page: StoredPage): string => {
+    const title = pageTitle(page);
+    if (title) return title;
+    try {
+      return new URL(page.url).pathname;
+    } catch {
+      // Imported or hand-made records can be keyed by something other than a URL.
+      return page.url;
+    }
   };
 
   const totalPages = domains.reduce((s, d) => s + d.pageCount, 0);
@@ -143,14 +372,36 @@ export default function KnowledgeBase() {
 
   return (
     <div className="flex flex-col h-screen">
-      <SearchBar setDataValues={setData} onSaveComplete={loadDomains} />
+      {scheduling && (
+        <ScheduleDialog domain={scheduling} onClose={(changed) => { setScheduling(null); if (changed) loadDomains(); }} />
+      )}
+      {showImport && (
+        <ImportDialog onClose={(imported) => { setShowImport(false); if (imported) { loadDomains(); setHistoryKey((k) => k + 1); } }} />
+      )}
+      {locked && (
+        <UnlockDialog
+          status={encryption}
+          workspaces={workspaces}
+          onSwitchWorkspace={(id) => onWorkspacesChange(setActiveWorkspace(userId, id))}
+          onUnlocked={() => { loadEncryption(); loadDomains(); setHistoryKey((k) => k + 1); }}
+        />
+      )}
+      {orphansDomain && (
+        <OrphanPagesDialog domain={orphansDomain} onOpenPage={(page) => { setOrphansDomain(null); openPage(page); }} onClose={() => setOrphansDomain(null)} />
+      )}
+      <SearchBar ref={searchBarRef} setDataValues={setData} onProgress={onProgress} onSaveComplete={() => { loadDomains(); setHistoryKey((k) => k + 1); }} />
       <div className="flex flex-1 overflow-hidden">
         {/* Sidebar */}
         <div className="w-64 border-r overflow-auto p-4 text-sm shrink-0 flex flex-col gap-4">
+          <WorkspaceSwitcher userId={userId} list={workspaces} disabled={crawling || converting} onChange={onWorkspacesChange} />
+
           {/* Mode Toggle */}
-          <div className="flex gap-1 p-1 bg-muted/50 rounded-lg">
+          <div className="grid grid-cols-2 gap-1 p-1 bg-muted/50 rounded-lg">
             <Button size="sm" variant={mode === "search" ? "default" : "ghost"} onClick={() => setMode("search")} className={`flex-1 text-xs h-8 rounded-md ${mode === "search" ? "bg-[#3bde77] hover:bg-[#2bc866] text-black" : ""}`}>Search</Button>
             <Button size="sm" variant={mode === "crawl" ? "default" : "ghost"} onClick={() => setMode("crawl")} className={`flex-1 text-xs h-8 rounded-md ${mode === "crawl" ? "bg-[#3bde77] hover:bg-[#2bc866] text-black" : ""}`}>Crawl</Button>
+            <Button size="sm" variant={mode === "history" ? "default" : "ghost"} onClick={() => setMode("history")} className={`flex-1 text-xs h-8 rounded-md ${mode === "history" ? "bg-[#3bde77] hover:bg-[#2bc866] text-black" : ""}`}>History</Button>
+            <Button size="sm" variant={mode === "failed" ? "default" : "ghost"} onClick={() => setMode("failed")} className={`flex-1 text-xs h-8 rounded-md ${mode === "failed" ? "bg-[#3bde77] hover:bg-[#2bc866] text-black" : ""}`}>Failed</Button>
+            <Button size="sm" variant={mode === "duplicates" ? "default" : "ghost"} onClick={() => setMode("duplicates")} className={`col-span-2 text-xs h-8 rounded-md ${mode === "duplicates" ? "bg-[#3bde77] hover:bg-[#2bc866] text-black" : ""}`}>Duplicates</Button>
           </div>
 
           {/* Stats */}
@@ -165,6 +416,69 @@ export default function KnowledgeBase() {
             </div>
           </div>
 
+          {/* Storage */}
+          {usage && (
+            <div className="space-y-1.5">
+              <div className="flex justify-between text-[10px] text-muted-foreground">
+                <span>Storage</span>
+                <span className="tabular-nums">{formatBytes(usage.used)} / {formatBytes(usage.limit)}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${usage.used / usage.limit > 0.9 ? "bg-red-400" : "bg-[#3bde77]"}`}
+                  style={{ width: `${Math.min(100, (usage.used / usage.limit) * 100)}%` }}
+                />
+              </div>
+              {usage.browserQuota ? (
+                <p className="text-[10px] text-muted-foreground">Browser: {formatBytes(usage.browserUsage || 0)} of {formatBytes(usage.browserQuota)} quota</p>
+              ) : null}
+              <div className="flex items-center gap-2 pt-1">
+                <span className="text-[10px] text-muted-foreground shrink-0">When full</span>
+                <Select
+                  value={evictionPolicy}
+                  onValueChange={async (v) => { setEvictionPolicy(v as EvictionPolicy); await updateStorageSettings({ evictionPolicy: v as EvictionPolicy }); }}
+                >
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="oldest-crawl">Evict oldest crawl</SelectItem>
+                    <SelectItem value="least-recently-viewed">Evict least viewed</SelectItem>
+                    <SelectItem value="refuse">Refuse new pages</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] text-muted-foreground shrink-0">Versions kept</span>
+                <Select
+                  value={String(versionRetention)}
+                  onValueChange={async (v) => { setVersionRetention(Number(v)); await updateStorageSettings({ versionRetention: Number(v) }); }}
+                >
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[0, 1, 3, 5, 10].map((n) => (
+                      <SelectItem key={n} value={String(n)}>{n === 0 ? "None" : `${n} per page`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {encryption && (
+            <EncryptionSettings
+              status={encryption}
+              autoLockMinutes={autoLockMinutes}
+              disabled={crawling}
+              onChange={(status) => { setEncryption(status); loadDomains(); }}
+              onLock={() => { lock().catch(console.error); }}
+              onAutoLockChange={setAutoLockMinutes}
+              onConvertingChange={setConverting}
+            />
+          )}
+
           {/* Domains */}
           <div>
             <h3 className="font-semibold text-xs text-muted-foreground uppercase tracking-wider mb-2">Indexed Domains</h3>
@@ -176,6 +490,33 @@ export default function KnowledgeBase() {
                   <div key={d.domain} className="flex items-center gap-1.5 rounded-md px-2 py-1.5 hover:bg-muted/50 transition-colors group">
                     <span className="truncate flex-1 text-xs">{d.domain}</span>
                     <Badge variant="outline" className="text-[10px] shrink-0 tabular-nums">{d.pageCount}</Badge>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className={`h-7 w-7 p-0 shrink-0 transition-opacity ${d.pinned ? "text-[#3bde77]" : "opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-primary"}`}
+                      title={d.pinned ? `Unpin ${d.domain}` : `Pin ${d.domain} so it is never evicted`}
+                      onClick={async () => { await setDomainPinned(d.domain, !d.pinned); loadDomains(); }}
+                    >
+                      <svg className="w-3.5 h-3.5" fill={d.pinned ? "currentColor" : "none"} viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M12 17v5M5 17h14v-1.76a2 2 0 00-1.11-1.79l-1.78-.9A2 2 0 0115 10.76V6h1a2 2 0 000-4H8a2 2 0 000 4h1v4.76a2 2 0 01-1.11 1.79l-1.78.9A2 2 0 005 15.24z" /></svg>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className={`h-7 w-7 p-0 shrink-0 transition-opacity ${d.schedule ? "text-[#3bde77]" : "opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-primary"}`}
+                      title={d.schedule ? `Re-crawled ${d.schedule.interval}, up to ${d.schedule.maxPages} pages` : `Schedule re-crawls of ${d.domain}`}
+                      onClick={() => setScheduling(d)}
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-primary"
+                      title={`Orphan pages on ${d.domain}`}
+                      onClick={() => setOrphansDomain(d.domain)}
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
+                    </Button>
                     <Button
                       size="sm"
                       variant="ghost"
@@ -200,6 +541,11 @@ export default function KnowledgeBase() {
             )}
           </div>
 
+          {/* Import */}
+          <div className="border-t pt-4">
+            <Button size="sm" variant="outline" className="w-full text-xs h-8" onClick={() => setShowImport(true)}>Import Data</Button>
+          </div>
+
           {/* Export */}
           {domains.length > 0 && (
             <div className="border-t pt-4 space-y-2">
@@ -212,6 +558,7 @@ export default function KnowledgeBase() {
                   <SelectItem value="json">JSON</SelectItem>
                   <SelectItem value="csv">CSV</SelectItem>
                   <SelectItem value="markdown">Markdown</SelectItem>
+                  <SelectItem value="obsidian">Obsidian vault (ZIP)</SelectItem>
                   <SelectItem value="html">HTML</SelectItem>
                 </SelectContent>
               </Select>
@@ -237,46 +584,130 @@ export default function KnowledgeBase() {
         </div>
         {/* Main */}
         <div className="flex-1 overflow-auto">
-          {selectedPage ? (
-            <div className="flex flex-col h-full">
-              <div className="flex items-center gap-2 p-3 border-b">
-                <Button size="sm" variant="ghost" onClick={() => setSelectedPage(null)}>Back</Button>
-                <span className="text-sm truncate flex-1">{selectedPage.url}</span>
-                <Button size="sm" variant="outline" className="text-xs shrink-0" onClick={() => exportSinglePage(selectedPage)}>Download</Button>
+          {storageError && (
+            <div className="m-4 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">
+              <p className="font-medium">Your knowledge base could not be upgraded.</p>
+              <p className="text-xs mt-1">{storageError} Your existing data was left unchanged; reload to retry.</p>
+            </div>
+          )}
+          {interrupted.map((crawl) => (
+            <div key={crawl.id} className="m-4 flex items-center gap-3 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-200">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">Crawl of {crawl.urls.join(", ")} was interrupted.</p>
+                <p className="text-xs mt-1">{crawl.pageCount} page{crawl.pageCount === 1 ? " was" : "s were"} saved {timeAgo(crawl.finishedAt ?? crawl.startedAt)}.</p>
               </div>
-              <Suspense fallback={<div className="p-4 text-muted-foreground">Loading...</div>}>
-                <MonacoEditor height="100%" language={selectedPage.content.startsWith("<") ? "html" : "markdown"} value={selectedPage.content} theme="vs-dark" options={{ readOnly: true, minimap: { enabled: false }, wordWrap: "on" }} />
-              </Suspense>
+              <Button size="sm" className="text-xs h-7 shrink-0 bg-[#3bde77] hover:bg-[#2bc866] text-black" onClick={() => resumeCrawl(crawl)}>Resume</Button>
+              <Button size="sm" variant="ghost" className="text-xs h-7 shrink-0" onClick={() => setInterrupted((prev) => prev.filter((c) => c.id !== crawl.id))}>Dismiss</Button>
             </div>
+          ))}
+          {selectedPage ? (
+            <PageViewer
+              page={selectedPage}
+              passage={selectedPassage}
+              onBack={() => setSelectedPage(null)}
+              onDownload={exportSinglePage}
+              onOpenLink={openUrl}
+            />
+          ) : mode === "history" ? (
+            <CrawlHistory
+              refreshKey={historyKey}
+              onOpenPage={openPage}
+              onRerun={(crawl) => searchBarRef.current?.startCrawl(crawl.urls, crawl.config)}
+              onResume={resumeCrawl}
+              onDeleted={loadDomains}
+            />
+          ) : mode === "failed" ? (
+            <FailedPages
+              refreshKey={historyKey}
+              onOpenPage={openPage}
+              onRetry={(urls) => searchBarRef.current?.retryUrls(urls)}
+            />
+          ) : mode === "duplicates" ? (
+            <DuplicatePages refreshKey={historyKey} onOpenPage={openPage} onDeleted={loadDomains} />
           ) : mode === "search" ? (
             <div className="p-6">
               <div className="max-w-2xl mx-auto">
                 <h2 className="text-2xl font-bold text-center mb-6">Search Knowledge Base</h2>
-                <form className="flex gap-2 mb-6" onSubmit={(e) => { e.preventDefault(); search(); }}>
-                  <Input className="text-lg h-12" placeholder="Search across all crawled content..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} />
-                  <Button size="lg" type="submit">Search</Button>
+                <form className="mb-6" onSubmit={(e) => { e.preventDefault(); search(); }}>
+                  <div className="flex gap-2">
+                    <Input
+                      className={`text-lg h-12 ${queryError ? "border-red-500/60 focus-visible:ring-red-500/40" : ""}`}
+                      placeholder="Search across all crawled content..."
+                      value={searchQuery}
+                      aria-invalid={!!queryError}
+                      aria-describedby="search-help"
+                      onChange={(e) => { setSearchQuery(e.target.value); setQueryError(null); setSuggestion(null); }}
+                    />
+                    <Button size="lg" type="submit">Search</Button>
+                  </div>
+                  <div className="flex gap-1 p-1 mt-2 bg-muted/50 rounded-lg w-fit">
+                    {(["keyword", "semantic", "hybrid"] as const).map((m) => (
+                      <Button
+                        key={m}
+                        type="button"
+                        size="sm"
+                        variant={searchMode === m ? "default" : "ghost"}
+                        onClick={() => { setSearchMode(m); setQueryError(null); setSuggestion(null); }}
+                        className={`text-xs h-7 rounded-md capitalize ${searchMode === m ? "bg-[#3bde77] hover:bg-[#2bc866] text-black" : ""}`}
+                      >
+                        {m}
+                      </Button>
+                    ))}
+                  </div>
+                  <p id="search-help" className={`text-xs mt-2 ${queryError ? "text-red-400" : "text-muted-foreground"}`}>
+                    {queryError ?? (searchMode === "semantic" ? "Describe what you are looking for; results are ranked by meaning rather than exact words." : <>Supports <code>&quot;exact phrase&quot;</code>, <code>-exclude</code>, <code>OR</code>, <code>site:</code>, <code>status:</code>, <code>title:</code>, <code>url:</code>, <code>before:</code> and <code>after:</code></>)}
+                  </p>
+                  {suggestion && (
+                    <p className="text-sm mt-2">
+                      Did you mean{" "}
+                      <button type="button" className="text-primary underline underline-offset-2" onClick={() => { setSearchQuery(suggestion); search(suggestion); }}>
+                        {suggestion}
+                      </button>
+                      ?
+                    </p>
+                  )}
                 </form>
                 {searchResults.length > 0 && (
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
                       <p className="text-sm text-muted-foreground">{searchResults.length} results</p>
-                      <Button size="sm" variant="outline" className="text-xs" onClick={() => exportPages(searchResults, exportFormat, "search-results")}>Download Results</Button>
+                      <Button size="sm" variant="outline" className="text-xs" onClick={() => exportPages(Array.from(new Map(searchResults.map((r) => [r.url, r])).values()), exportFormat, "search-results")}>Download Results</Button>
                     </div>
-                    {searchResults.map((page) => (
-                      <div key={page.url} className="p-4 border rounded-lg hover:bg-muted/50 group">
-                        <button className="block w-full text-left" onClick={() => setSelectedPage(page)}>
-                          <p className="font-medium text-primary">{getTitle(page.content, page.url)}</p>
-                          <p className="text-xs text-muted-foreground mb-1">{page.url}</p>
-                          <p className="text-sm text-muted-foreground line-clamp-2">{getSnippet(page.content, searchQuery)}</p>
-                          <p className="text-xs text-muted-foreground mt-1">{page.domain} · {timeAgo(page.timestamp)}</p>
-                        </button>
-                      </div>
-                    ))}
+                    {searchResults.map((page) => {
+                      const key = `${page.url}#${page.passage?.index ?? ""}`;
+                      return (
+                        <div key={key} className="p-4 border rounded-lg hover:bg-muted/50 group">
+                          <button className="block w-full text-left" onClick={() => openPage(page, page.passage)}>
+                            <p className="font-medium text-primary">{getTitle(page)}</p>
+                            {page.passage?.path.length ? <p className="text-xs text-[#3bde77] truncate">{page.passage.path.join(" › ")}</p> : null}
+                            <p className="text-xs text-muted-foreground mb-1">{page.url}{page.passage?.anchor && `#${page.passage.anchor}`}</p>
+                            <p className="text-sm text-muted-foreground line-clamp-2">{getSnippet(page, searchQuery)}</p>
+                            <p className="text-xs text-muted-foreground mt-1">{page.domain} · {timeAgo(page.timestamp)}{page.wordCount != null && ` · ${page.wordCount.toLocaleString()} words`}</p>
+                          </button>
+                          {page.similar?.length ? (
+                            <div className="mt-2">
+                              <button className="text-xs text-muted-foreground hover:text-primary" onClick={() => setExpandedSimilar(expandedSimilar === key ? null : key)}>
+                                {expandedSimilar === key ? "Hide" : "Show"} {page.similar.length} similar page{page.similar.length === 1 ? "" : "s"}
+                              </button>
+                              {expandedSimilar === key && (
+                                <div className="mt-1 border-l pl-3 space-y-0.5">
+                                  {page.similar.map((url) => (
+                                    <button key={url} className="block w-full truncate text-left text-xs text-muted-foreground hover:text-primary" onClick={() => openUrl(url)}>{url}</button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          ) : null}
+                        </div>
+                      );
+                    })}
                   </div>
                 )}
-                {searchResults.length === 0 && searchQuery && <p className="text-center text-muted-foreground">No results found. Try crawling more content.</p>}
+                {searchResults.length === 0 && searchQuery && !queryError && <p className="text-center text-muted-foreground">No results found. Try crawling more content.</p>}
               </div>
             </div>
+          ) : progress ? (
+            <CrawlProgress progress={progress} pages={data || []} onOpenPage={openPage} />
           ) : (
             <div className="p-6 text-center text-muted-foreground">
               <p className="text-lg mb-2">Use the search bar above to crawl websites.</p>
@@ -0,0 +1,51 @@
+"use client";
+
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogOverlay,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Asks whether the pages saved before workspaces existed should join the current
+ * workspaces: a signed-in user's, or the signed-out ones. Closing it decides nothing,
+ * so it asks again next time.
+ */
+const LegacyDataDialog = ({
+  signedIn,
+  onAdopt,
+  onKeepSignedOut,
+  onClose,
+}: {
+  signedIn: boolean;
+  onAdopt: () => void;
+  onKeepSignedOut: () => void;
+  onClose: () => void;
+}) => (
+  <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+    <DialogOverlay />
+    <DialogContent className="p-4 rounded-md shadow-md">
+      <DialogHeader>
+        <DialogTitle>Pages saved before workspaces</DialogTitle>
+        <DialogDescription>
+          This browser has a knowledge base from before each account got its own. Anyone who used this browser may have saved pages to it.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="flex items-center justify-end gap-2">
+        {signedIn ? (
+          <Button variant="outline" size="sm" onClick={onKeepSignedOut}>
+            Keep it for signed-out use
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" onClick={onClose}>
+            Not now
+          </Button>
+        )}
+        <Button size="sm" className="bg-[#3bde77] hover:bg-[#2bc866] text-black" onClick={onAdopt}>
+          Add to my workspaces
+        </Button>
+      </div>
+    </DialogContent>
+  </Dialog>
+);
+
+export default LegacyDataDialog;
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogOverlay,
+} from "@/components/ui/dialog";
+import { timeAgo, type StoredPage } from "@/lib/storage";
+import { getOrphanPages } from "@/lib/storage-client";
+
+const OrphanPagesDialog = ({
+  domain,
+  onOpenPage,
+  onClose,
+}: {
+  domain: string;
+  onOpenPage: (page: StoredPage) => void;
+  onClose: () => void;
+}) => {
+  const [pages, setPages] = useState<StoredPage[] | null>(null);
+
+  useEffect(() => {
+    getOrphanPages(domain).then(setPages).catch(() => setPages([]));
+  }, [domain]);
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogOverlay />
+      <DialogContent className="p-4 rounded-md shadow-md">
+        <DialogHeader>
+          <DialogTitle>Orphan pages on {domain}</DialogTitle>
+          <DialogDescription>Saved pages that no other saved page of this domain links to.</DialogDescription>
+        </DialogHeader>
+        {pages === null ? (
+          <p className="text-xs text-muted-foreground">Loading...</p>
+        ) : pages.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Every saved page is linked from somewhere on the site.</p>
+        ) : (
+          <div className="space-y-0.5 max-h-80 overflow-auto">
+            {pages.map((page) => (
+              <button key={page.url} className="flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-xs hover:bg-muted/50" onClick={() => onOpenPage(page)}>
+                <span className="truncate flex-1">{page.url}</span>
+                <span className="text-muted-foreground shrink-0">{timeAgo(page.timestamp)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OrphanPagesDialog;
@@ -0,0 +1,183 @@
+"use client";
+
+import { lazy, Suspense, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatBytes, timeAgo, type PageLinks, type PageVersion, type StoredPage } from "@/lib/storage";
+import { getPageLinks, getPageVersions } from "@/lib/storage-client";
+import { passageText, type Passage } from "@/lib/extract";
+
+const MonacoEditor = lazy(() => import("@monaco-editor/react").then((m) => ({ default: m.default })));
+const DiffEditor = lazy(() => import("@monaco-editor/react").then((m) => ({ default: m.DiffEditor })));
+
+const EDITOR_OPTIONS = { readOnly: true, minimap: { enabled: false }, wordWrap: "on" } as const;
+
+const CURRENT = "current";
+
+/**
+ * Where a passage starts in the raw content: at its heading's id, else at the heading
+ * text, else at its first words. Null when none of them can be found verbatim.
+ */
+function locatePassage(page: StoredPage, passage: Passage): { offset: number; length: number } | null {
+  const heading = passage.path[passage.path.length - 1];
+  const lead = passageText(page, passage).split("\n")[0].slice(0, 60);
+  const needles = [
+    passage.anchor && `id="${passage.anchor}"`,
+    passage.anchor && `id='${passage.anchor}'`,
+    heading,
+    lead,
+  ];
+  for (const needle of needles) {
+    const offset = needle ? page.content.indexOf(needle) : -1;
+    if (offset !== -1) return { offset, length: needle!.length };
+  }
+  return null;
+}
+
+const PageViewer = ({
+  page,
+  passage,
+  onBack,
+  onDownload,
+  onOpenLink,
+}: {
+  page: StoredPage;
+  /** Scrolled to and selected when the page opens. */
+  passage?: Passage;
+  onBack: () => void;
+  onDownload: (page: StoredPage) => void;
+  /** Opens another saved page from the links panel. */
+  onOpenLink: (url: string) => void;
+}) => {
+  const [versions, setVersions] = useState<PageVersion[]>([]);
+  const [selected, setSelected] = useState(CURRENT);
+  const [diff, setDiff] = useState(false);
+  const [links, setLinks] = useState<PageLinks | null>(null);
+  const [showLinks, setShowLinks] = useState(false);
+
+  useEffect(() => {
+    setSelected(CURRENT);
+    setDiff(false);
+    getPageVersions(page.url).then(setVersions).catch(() => setVersions([]));
+    getPageLinks(page.url).then(setLinks).catch(() => setLinks(null));
+  }, [page.url]);
+
+  const version = versions.find((v) => v.id === selected);
+  const content = version?.content ?? page.content;
+  const language = page.content.startsWith("<") ? "html" : "markdown";
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 p-3 border-b">
+        <Button size="sm" variant="ghost" onClick={onBack}>Back</Button>
+        <span className="text-sm truncate flex-1">
+          {page.url}
+          {passage?.path.length ? <span className="text-muted-foreground"> · {passage.path.join(" › ")}</span> : null}
+        </span>
+        {versions.length > 0 && (
+          <>
+            <Select value={selected} onValueChange={(v) => { setSelected(v); if (v === CURRENT) setDiff(false); }}>
+              <SelectTrigger className="h-8 w-48 text-xs shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT}>Current · {timeAgo(page.timestamp)}</SelectItem>
+                {versions.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>{timeAgo(v.timestamp)} · {formatBytes(v.contentSize)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              className={`text-xs shrink-0 ${diff ? "bg-[#3bde77] hover:bg-[#2bc866] text-black" : ""}`}
+              variant={diff ? "default" : "outline"}
+              disabled={!version}
+              title={version ? "Compare this version with the current content" : "Pick an earlier version to compare"}
+              onClick={() => setDiff(!diff)}
+            >
+              Diff
+            </Button>
+          </>
+        )}
+        <Button
+          size="sm"
+          className={`text-xs shrink-0 ${showLinks ? "bg-[#3bde77] hover:bg-[#2bc866] text-black" : ""}`}
+          variant={showLinks ? "default" : "outline"}
+          disabled={!links}
+          onClick={() => setShowLinks(!showLinks)}
+        >
+          Links{links ? ` (${links.outlinks.length}/${links.backlinks.length})` : ""}
+        </Button>
+        <Button size="sm" variant="outline" className="text-xs shrink-0" onClick={() => onDownload(version ? { ...page, content, timestamp: version.timestamp } : page)}>Download</Button>
+      </div>
+      <div className="flex flex-1 min-h-0">
+        <div className="flex-1 min-w-0">
+          <Suspense fallback={<div className="p-4 text-muted-foreground">Loading...</div>}>
+            {diff && version ? (
+              <DiffEditor height="100%" language={language} original={version.content} modified={page.content} theme="vs-dark" options={{ ...EDITOR_OPTIONS, renderSideBySide: true }} />
+            ) : (
+              <MonacoEditor
+                height="100%"
+                language={language}
+                value={content}
+                theme="vs-dark"
+                options={EDITOR_OPTIONS}
+                onMount={(editor) => {
+                  const model = editor.getModel();
+                  const target = passage && model && locatePassage(page, passage);
+                  if (!target || version) return;
+                  const start = model.getPositionAt(target.offset);
+                  const end = model.getPositionAt(target.offset + target.length);
+                  const range = { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column };
+                  editor.setSelection(range);
+                  editor.revealRangeNearTop(range);
+                }}
+              />
+            )}
+          </Suspense>
+        </div>
+        {showLinks && links && (
+          <div className="w-72 shrink-0 border-l overflow-auto p-3 space-y-4">
+            <LinkList title="Links to" links={links.outlinks} onOpenLink={onOpenLink} />
+            <LinkList title="Linked from" links={links.backlinks.map((url) => ({ url, saved: true }))} onOpenLink={onOpenLink} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const LinkList = ({
+  title,
+  links,
+  onOpenLink,
+}: {
+  title: string;
+  links: PageLinks["outlinks"];
+  onOpenLink: (url: string) => void;
+}) => (
+  <div>
+    <h3 className="font-semibold text-xs text-muted-foreground uppercase tracking-wider mb-1">{title} ({links.length})</h3>
+    {links.length === 0 ? (
+      <p className="text-xs text-muted-foreground">None</p>
+    ) : (
+      <div className="space-y-0.5">
+        {links.map((link) => link.saved ? (
+          <button key={link.url} className="block w-full truncate rounded-md px-2 py-1 text-left text-xs hover:bg-muted/50" title={link.url} onClick={() => onOpenLink(link.url)}>
+            {link.url}
+          </button>
+        ) : (
+          <p key={link.url} className="truncate px-2 py-1 text-xs text-muted-foreground" title={`${link.url} (not saved)`}>{link.url}</p>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default PageViewer;
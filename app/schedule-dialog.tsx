@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogOverlay,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { timeAgo, type DomainInfo, type ScheduleInterval } from "@/lib/storage";
+import { setDomainSchedule } from "@/lib/storage-client";
+
+const DEFAULT_MAX_PAGES = 50;
+
+const ScheduleDialog = ({
+  domain,
+  onClose,
+}: {
+  domain: DomainInfo;
+  onClose: (changed: boolean) => void;
+}) => {
+  const { schedule } = domain;
+  const [frequency, setFrequency] = useState<ScheduleInterval | "off">(schedule?.interval ?? "off");
+  const [maxPages, setMaxPages] = useState(schedule?.maxPages ?? Math.max(DEFAULT_MAX_PAGES, domain.pageCount));
+
+  const save = async () => {
+    await setDomainSchedule(domain.domain, frequency === "off" ? null : { interval: frequency, maxPages: Math.max(1, maxPages) });
+    onClose(true);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(false); }}>
+      <DialogOverlay />
+      <DialogContent className="p-4 rounded-md shadow-md">
+        <DialogHeader>
+          <DialogTitle>Re-crawl {domain.domain}</DialogTitle>
+          <DialogDescription>Crawl this domain again automatically while the app is open.</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center">
+            <Label className="flex-1">Frequency:</Label>
+            <Select value={frequency} onValueChange={(v) => setFrequency(v as ScheduleInterval | "off")}>
+              <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center">
+            <Label htmlFor="scheduleMaxPages" className="flex-1">Max Pages:</Label>
+            <Input
+              type="number"
+              id="scheduleMaxPages"
+              className="w-1/2"
+              value={maxPages}
+              disabled={frequency === "off"}
+              onChange={(e) => setMaxPages(Number(e.currentTarget.value))}
+              min="1"
+              max="1000"
+            />
+          </div>
+          {schedule && (
+            <p className="text-xs text-muted-foreground">
+              {schedule.lastRunAt ? `Last run ${timeAgo(schedule.lastRunAt)}. ` : ""}
+              Next run {new Date(schedule.nextRunAt).toLocaleString()}.
+            </p>
+          )}
+          <Button type="button" onClick={save} className="self-end">Save</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleDialog;
@@ -1,7 +1,7 @@
 "use client";
 
-import React, { Dispatch, SyntheticEvent, useEffect, useRef, useState } from "react";
-import { VscLoading, VscSearch, VscSettings } from "react-icons/vsc";
+import React, { Dispatch, SetStateAction, SyntheticEvent, forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
+import { VscDebugContinue, VscDebugPause, VscDebugStop, VscLoading, VscSearch, VscSettings } from "react-icons/vsc";
 import ms from "ms";
 import {
   Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogOverlay,
@@ -15,17 +15,49 @@ import {
 } from "@/components/ui/select";
 import AuthDropdown, { useAuthMenu } from "./auth";
 import AppSwitcher from "./app-switcher";
-import { savePages } from "@/lib/storage";
+import { createCrawlId, holdCrawlLock, isFailedPage, type CrawlConfig, type CrawlRecord, type DomainSchedule, type StoredPage, type TaskProgress } from "@/lib/storage";
+import { savePages, saveCrawl, getMissingUrls, findStalePages, parseCrawlLines, getEmbeddingSettings, saveEmbeddingSettings } from "@/lib/storage-client";
+import { takeLegacyEmbeddingSettings, type EmbeddingSettings } from "@/lib/embeddings";
+import { createSpiderClient, readJsonlLines, SpiderApiError, SpiderAuthError, SpiderRateLimitError } from "@/lib/spider-client";
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://api.spider.cloud";
+// Crawls go through the app's own route, which holds the Spider key.
+const crawlClient = createSpiderClient({ baseUrl: "/api" });
+const FLUSH_BATCH_SIZE = 25;
+const FLUSH_INTERVAL_MS = 2000;
 
-const SearchBar = ({
+export interface SearchBarHandle {
+  /** Starts a crawl as if submitted from the form, e.g. to re-run one from history. */
+  startCrawl: (urls: string[], config: CrawlConfig) => Promise<void>;
+  /** Re-fetches individual pages with the current settings, e.g. ones that failed. */
+  retryUrls: (urls: string[]) => Promise<void>;
+  /** Fetches the pages a partial crawl is still missing, adding them to the same run. */
+  resumeCrawl: (crawl: CrawlRecord) => Promise<void>;
+  /** Re-crawls a domain on its schedule with the current crawl settings. */
+  runSchedule: (schedule: DomainSchedule) => Promise<void>;
+  /** Whether a crawl could start right now without prompting the user. */
+  isIdle: () => boolean;
+}
+
+export interface CrawlProgress {
+  crawl: CrawlRecord;
+  /** Most pages the crawl can return: the limit for each requested URL. */
+  expected: number;
+  paused: boolean;
+  /** Streamed lines that could not be parsed or tied to a URL. */
+  unreadable: number;
+  /** The batch currently being written, while there is one. */
+  saving?: TaskProgress | null;
+}
+
+const SearchBar = forwardRef<SearchBarHandle, {
+  setDataValues: Dispatch<SetStateAction<StoredPage[] | null>>;
+  onSaveComplete?: () => void;
+  onProgress?: (progress: CrawlProgress) => void;
+}>(({
   setDataValues,
   onSaveComplete,
-}: {
-  setDataValues: Dispatch<any>;
-  onSaveComplete?: () => void;
-}) => {
+  onProgress,
+}, ref) => {
   const [url, setURl] = useState("");
   const [dataLoading, setDataLoading] = useState(false);
   const [configModalOpen, setConfigModalOpen] = useState(false);
@@ -34,85 +66,282 @@ const SearchBar = ({
   const [apiKey, setAPIKey] = useState("");
   const [request, setRequest] = useState("smart");
   const [fullResources, setFullResources] = useState(false);
-  const crawledPagesRef = useRef<any[]>([]);
-  const streamBufferRef = useRef("");
+  const [embeddingEndpoint, setEmbeddingEndpoint] = useState("");
+  const [embeddingKey, setEmbeddingKey] = useState("");
+  const [embeddingModel, setEmbeddingModel] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+  // Set while paused; the stream loop waits on it before reading the next chunk.
+  const pauseRef = useRef<{ resumed: Promise<void>; resume: () => void } | null>(null);
+  const [paused, setPaused] = useState(false);
+  const progressRef = useRef<CrawlProgress | null>(null);
+  // Set once the workspace this bar writes to is closed, e.g. on sign-out.
+  const closedRef = useRef(false);
   const auth = useAuthMenu();
   const { toast } = useToast();
 
+  // Another workspace's database is selected by the time this unmounts, so a running
+  // crawl is stopped and its unsaved pages dropped rather than written there.
+  useEffect(() => () => {
+    closedRef.current = true;
+    abortRef.current?.abort();
+    pauseRef.current?.resume();
+  }, []);
+
   useEffect(() => {
     const prefill = new URLSearchParams(window.location.search).get("url");
     if (prefill) setURl(prefill);
+    // Settings kept for the whole browser before workspaces had their own go to the first one opened.
+    const legacy = takeLegacyEmbeddingSettings();
+    const loaded: Promise<EmbeddingSettings | null> = legacy ? saveEmbeddingSettings(legacy).then(() => legacy) : getEmbeddingSettings();
+    loaded.then((embedding) => {
+      if (!embedding) return;
+      setEmbeddingEndpoint(embedding.endpoint);
+      setEmbeddingKey(embedding.apiKey || "");
+      setEmbeddingModel(embedding.model || "");
+    }).catch(console.error);
   }, []);
 
+  const saveConfig = () => {
+    const endpoint = embeddingEndpoint.trim();
+    saveEmbeddingSettings(endpoint ? { endpoint, apiKey: embeddingKey || undefined, model: embeddingModel.trim() || undefined } : null).catch(console.error);
+    setConfigModalOpen(false);
+  };
+
   const onAPIEvent = async (e: SyntheticEvent<HTMLFormElement>) => {
     e.preventDefault();
-    const jwt = auth.$session?.access_token;
-    if (!jwt) {
-      return toast({ title: "Authentication Required", description: "Please login or register." });
-    }
     if (!url) {
       return toast({ title: "URL Required", description: "Please enter a valid website url." });
     }
     const urlList = url.trim().split(",").map((item) =>
       item.startsWith("http://") || item.startsWith("https://") ? item.trim() : `https://${item.trim()}`
     ).filter(Boolean);
+    await startCrawl(urlList, { limit: crawlLimit, return_format: returnFormat, request, full_resources: fullResources });
+  };
+
+  const startCrawl = async (
+    urlList: string[],
+    config: CrawlConfig,
+    { resume, scheduledFor }: { resume?: CrawlRecord; scheduledFor?: string } = {}
+  ): Promise<void> => {
+    if (!auth.$session) {
+      toast(auth.expired
+        ? { title: "Session expired", description: "Sign in again to crawl." }
+        : { title: "Authentication Required", description: "Please login or register." });
+      return;
+    }
+    if (dataLoading) {
+      toast({ title: "Crawl in progress", description: "Wait for the current crawl to finish." });
+      return;
+    }
     setDataLoading(true);
-    crawledPagesRef.current = [];
-    streamBufferRef.current = "";
+    const controller = new AbortController();
+    abortRef.current = controller;
     const current = performance.now();
+    const crawl: CrawlRecord = resume
+      ? { ...resume, status: "running", finishedAt: undefined, error: undefined }
+      : { id: createCrawlId(), urls: urlList, config, status: "running", startedAt: Date.now(), pageCount: 0, failedCount: 0, scheduledFor };
+    const releaseLock = holdCrawlLock(crawl.id);
+    saveCrawl(crawl).catch(console.error);
+    setDataValues([]);
+    reportProgress({ crawl, expected: config.limit * urlList.length, paused: false, unreadable: 0 });
+
+    // Pages are written in batches while the stream is still open, so an interrupted
+    // crawl keeps everything flushed before the interruption.
+    let pending: StoredPage[] = [];
+    let flushing: Promise<void> = Promise.resolve();
+    let lastFlush = Date.now();
+    let flushed = { pageCount: crawl.pageCount, failedCount: crawl.failedCount };
+    const changes = { added: 0, changed: 0, removed: 0, ...crawl.changes };
+    let evictedCount = 0;
+    let saveFailed = false;
+    let embeddingWarned = false;
+    const flush = () => {
+      const batch = pending;
+      pending = [];
+      lastFlush = Date.now();
+      flushing = flushing.then(async () => {
+        if (closedRef.current) return;
+        if (batch.length && !saveFailed) {
+          try {
+            const { added, changed, evicted, embeddingError } = await savePages(batch, {
+              crawlId: crawl.id,
+              onProgress: (saving) => { if (progressRef.current) reportProgress({ ...progressRef.current, saving }); },
+            });
+            if (embeddingError && !embeddingWarned) {
+              embeddingWarned = true;
+              toast({ title: "Embedding endpoint unavailable", description: `${embeddingError}. Pages are saved with local embeddings only.` });
+            }
+            evictedCount += evicted.length;
+            changes.added += added;
+            changes.changed += changed;
+            flushed = {
+              pageCount: flushed.pageCount + batch.length,
+              failedCount: flushed.failedCount + batch.filter(isFailedPage).length,
+            };
+          } catch (err) {
+            // A full quota, a lock or any other storage failure all leave the rest to a resume.
+            saveFailed = true;
+            toast({ title: "Not saved", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+          }
+        }
+        if (progressRef.current?.saving) reportProgress({ ...progressRef.current, saving: null });
+        await saveCrawl({ ...crawl, ...flushed, parseErrors, changes, updatedAt: Date.now() });
+        onSaveComplete?.();
+      }).catch(console.error);
+      return flushing;
+    };
+
     let pages = 0;
+    let parseErrors = crawl.parseErrors || 0;
+    // Lines are parsed in the storage worker, which also sizes each page for the progress view.
+    const receive = async (lines: string[]) => {
+      const parsed = await parseCrawlLines(lines, crawl.id);
+      parseErrors += parsed.malformed;
+      if (parsed.unreadable && progressRef.current) {
+        reportProgress({ ...progressRef.current, unreadable: progressRef.current.unreadable + parsed.unreadable });
+      }
+      if (!parsed.pages.length) return;
+      pages += parsed.pages.length;
+      setDataValues((prev) => prev ? [...prev, ...parsed.pages] : parsed.pages);
+      pending.push(...parsed.pages);
+      if (pending.length >= FLUSH_BATCH_SIZE || Date.now() - lastFlush >= FLUSH_INTERVAL_MS) flush();
+    };
+
     let finished = false;
-    toast({ title: "Crawling started", description: `Fetching up to ${crawlLimit} pages from ${urlList.length} website${urlList.length === 1 ? "" : "s"}...` });
+    let failure: string | undefined;
+    toast({
+      title: resume ? "Resuming crawl" : "Crawling started",
+      description: resume
+        ? `Fetching ${urlList.length} missing page${urlList.length === 1 ? "" : "s"}...`
+        : `Fetching up to ${config.limit} pages from ${urlList.length} website${urlList.length === 1 ? "" : "s"}...`,
+    });
     try {
-      const res = await fetch(API_URL + "/crawl", {
-        method: "POST",
-        body: JSON.stringify({ url: urlList.join(","), limit: crawlLimit, return_format: returnFormat, request, ...(fullResources && { full_resources: true }) }),
-        headers: { "content-type": "application/jsonl", authorization: apiKey || jwt },
-      });
-      if (!res.ok) {
-        toast({ title: "Crawl failed", description: `Server returned ${res.status}. Check your API key and credits.`, variant: "destructive" });
-      } else {
-        finished = true;
-        const reader = res.body?.getReader();
-        const decoder = new TextDecoder();
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) {
-              if (streamBufferRef.current.trim()) {
-                try { const p = JSON.parse(streamBufferRef.current.trim()); crawledPagesRef.current.push(p); pages++; setDataValues((prev: any) => prev ? [...prev, p] : [p]); } catch {}
-              }
-              break;
-            }
-            streamBufferRef.current += decoder.decode(value, { stream: true });
-            const lines = streamBufferRef.current.split("\n");
-            streamBufferRef.current = lines.pop() || "";
-            for (const line of lines) {
-              const trimmed = line.trim();
-              if (!trimmed) continue;
-              try { const parsed = JSON.parse(trimmed); crawledPagesRef.current.push(parsed); pages++; setDataValues((prev: any) => prev ? [...prev, parsed] : [parsed]); } catch {}
-            }
-          }
+      const res = await auth.withSession((authorization) => crawlClient.openCrawl(
+        { urls: urlList, ...config },
+        { authorization, apiKey: apiKey || undefined, signal: controller.signal }
+      ));
+      for await (const lines of res.body ? readJsonlLines(res.body) : []) {
+        await receive(lines);
+        if (pauseRef.current) {
+          flush();
+          await pauseRef.current.resumed;
         }
+        if (controller.signal.aborted) break;
       }
+      finished = !controller.signal.aborted;
     } catch (e) {
-      console.error(e);
-      toast({ title: "Network error", description: "Could not reach the server. Please try again.", variant: "destructive" });
+      // Stopping aborts the fetch mid-read; that is not a network failure.
+      if (e instanceof SpiderApiError) {
+        failure = e.message;
+        const title = e instanceof SpiderRateLimitError ? "Rate limit reached" : e instanceof SpiderAuthError ? "Not authorized" : "Crawl failed";
+        toast({ title, description: e.message, variant: "destructive" });
+      } else if (!controller.signal.aborted) {
+        console.error(e);
+        failure = pages ? `Connection lost after ${pages} page${pages === 1 ? "" : "s"}` : "Could not reach the server";
+        toast({ title: "Network error", description: `${failure}. Please try again.`, variant: "destructive" });
+      }
     } finally {
-      setDataLoading(false);
-      streamBufferRef.current = "";
-      if (!finished && !pages) {
-        // error toast already shown above
-      } else if (finished) {
-        toast({ title: "Crawl complete", description: `${pages} page${pages === 1 ? "" : "s"} crawled in ${ms(performance.now() - current, { long: true })}.` });
-        if (crawledPagesRef.current.length) {
-          savePages(crawledPagesRef.current).then(() => onSaveComplete?.()).catch(console.error);
+      setPaused(false);
+      pauseRef.current = null;
+      abortRef.current = null;
+      if (controller.signal.aborted) failure = "Stopped before the crawl finished";
+      const durationMs = (resume?.durationMs || 0) + performance.now() - current;
+      flush().then(async () => {
+        if (closedRef.current) return;
+        // Pages that could not be saved are still missing, so the crawl can be resumed for them.
+        const complete = finished && !saveFailed;
+        const status = complete ? "completed" : flushed.pageCount || saveFailed ? "partial" : "failed";
+        // A finished scheduled run that stayed under its page limit may have seen the whole
+        // site, so stored pages it did not return may be gone. They are listed for the user
+        // to confirm, and only when the run returned pages that all parsed and not all failed.
+        let stale: string[] = [];
+        const usable = pages > 0 && !parseErrors && flushed.failedCount < flushed.pageCount;
+        if (scheduledFor && complete && usable && pages < config.limit) {
+          stale = await findStalePages(scheduledFor, crawl.id);
         }
-      }
-      crawledPagesRef.current = [];
+        if (complete && scheduledFor) {
+          const missing = stale.length ? ` ${stale.length} saved page${stale.length === 1 ? " was" : "s were"} not found; review them in History.` : "";
+          toast({ title: `Re-crawled ${scheduledFor}`, description: `${changes.added} added, ${changes.changed} changed.${missing}` });
+        } else if (complete) {
+          toast({ title: "Crawl complete", description: `${pages} page${pages === 1 ? "" : "s"} crawled in ${ms(performance.now() - current, { long: true })}.` });
+        } else if (controller.signal.aborted) {
+          toast({ title: "Crawl stopped", description: `Kept ${flushed.pageCount} page${flushed.pageCount === 1 ? "" : "s"} received so far.` });
+        } else if (status === "partial") {
+          toast({ title: "Crawl incomplete", description: `${flushed.pageCount} page${flushed.pageCount === 1 ? " was" : "s were"} saved. Resume it from History.` });
+        }
+        if (evictedCount) {
+          toast({ title: "Storage limit reached", description: `Evicted ${evictedCount} older page${evictedCount === 1 ? "" : "s"} to make room.` });
+        }
+        const summary: CrawlRecord = {
+          ...crawl, ...flushed, parseErrors, changes, status, finishedAt: Date.now(), updatedAt: Date.now(), durationMs, error: failure,
+          ...(stale.length && { stale }),
+        };
+        if (progressRef.current) reportProgress({ ...progressRef.current, crawl: summary, paused: false });
+        return saveCrawl(summary);
+      }).catch(console.error).finally(() => {
+        // Only now that the last batch and the summary are written can another crawl start.
+        setDataLoading(false);
+        releaseLock();
+        onSaveComplete?.();
+      });
+    }
+  };
+
+  const reportProgress = (progress: CrawlProgress) => {
+    progressRef.current = progress;
+    onProgress?.(progress);
+  };
+
+  const stopCrawl = () => {
+    abortRef.current?.abort();
+    pauseRef.current?.resume();
+  };
+
+  const togglePause = () => {
+    if (pauseRef.current) {
+      pauseRef.current.resume();
+      pauseRef.current = null;
+      setPaused(false);
+      if (progressRef.current) reportProgress({ ...progressRef.current, paused: false });
+      return;
+    }
+    let resume = () => {};
+    const resumed = new Promise<void>((resolve) => { resume = resolve; });
+    pauseRef.current = { resumed, resume };
+    setPaused(true);
+    if (progressRef.current) reportProgress({ ...progressRef.current, paused: true });
+  };
+
+  const resumeCrawl = async (crawl: CrawlRecord): Promise<void> => {
+    const missing = await getMissingUrls(crawl);
+    if (!missing.length) {
+      toast({ title: "Nothing left to crawl", description: "Every page this crawl found has already been saved." });
+      await saveCrawl({ ...crawl, status: "completed", error: undefined });
+      onSaveComplete?.();
+      return;
     }
+    // Without saved pages there are no links to follow, so the crawl starts over;
+    // otherwise fetch exactly the missing pages.
+    const config = crawl.pageCount ? { ...crawl.config, limit: 1 } : crawl.config;
+    await startCrawl(missing, config, { resume: crawl });
   };
 
+  const runSchedule = async (schedule: DomainSchedule): Promise<void> => {
+    await startCrawl(
+      [`https://${schedule.domain}`],
+      { limit: schedule.maxPages, return_format: returnFormat, request, full_resources: fullResources },
+      { scheduledFor: schedule.domain }
+    );
+  };
+
+  useImperativeHandle(ref, () => ({
+    startCrawl,
+    retryUrls: (urls) => startCrawl(urls, { limit: 1, return_format: returnFormat, request, full_resources: fullResources }),
+    resumeCrawl,
+    runSchedule,
+    isIdle: () => !!auth.$session && !dataLoading,
+  }));
+
   return (
     <>
       <nav className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -147,12 +376,24 @@ const SearchBar = ({
                 className="bg-[#3bde77] hover:bg-[#2bc866] text-black font-medium h-9 px-4 rounded-lg shrink-0 disabled:opacity-70"
               >
                 {dataLoading ? (
-                  <><VscLoading className="motion-safe:animate-spin w-3.5 h-3.5 mr-1.5" />Crawling</>
+                  paused ? "Paused" : <><VscLoading className="motion-safe:animate-spin w-3.5 h-3.5 mr-1.5" />Crawling</>
                 ) : (
                   "Crawl"
                 )}
               </Button>
+              {dataLoading && (
+                <>
+                  <Button type="button" size="sm" variant="outline" onClick={togglePause} className="h-9 w-9 p-0 rounded-lg shrink-0" title={paused ? "Resume reading the stream" : "Pause reading the stream"}>
+                    {paused ? <VscDebugContinue className="w-4 h-4" /> : <VscDebugPause className="w-4 h-4" />}
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={stopCrawl} className="h-9 w-9 p-0 rounded-lg shrink-0 border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300" title="Stop and keep the pages received so far">
+                    <VscDebugStop className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
             </form>
+          ) : auth.expired ? (
+            <p className="flex-1 text-right text-xs text-amber-400" role="status">Your session expired. Sign in again to keep crawling.</p>
           ) : <div className="flex-1" />}
           <div className="flex items-center gap-1 shrink-0">
             <AppSwitcher currentUrl={url} />
@@ -213,9 +454,18 @@ const SearchBar = ({
               <div>
                 <Label htmlFor="sk-key">API Key</Label>
                 <Input placeholder="sk-somesecret" type="password" id="sk-key" onChange={(e) => setAPIKey(e.currentTarget.value)} />
-                <p className="py-2 text-sm text-muted-foreground">This key is only used in the current session.</p>
+                <p className="py-2 text-sm text-muted-foreground">Optional when the server has a team key. Only sent to this app&apos;s server for the current session.</p>
               </div>
-              <Button type="button" onClick={() => setConfigModalOpen(false)} className="self-end">Save</Button>
+              <div className="flex flex-col gap-2 border-t pt-3">
+                <Label htmlFor="embedding-endpoint">Embedding Endpoint (optional)</Label>
+                <Input placeholder="http://localhost:8080/v1/embeddings" id="embedding-endpoint" value={embeddingEndpoint} onChange={(e) => setEmbeddingEndpoint(e.currentTarget.value)} />
+                <div className="flex gap-2">
+                  <Input placeholder="Model" aria-label="Embedding model" value={embeddingModel} onChange={(e) => setEmbeddingModel(e.currentTarget.value)} />
+                  <Input placeholder="API key" type="password" aria-label="Embedding API key" value={embeddingKey} onChange={(e) => setEmbeddingKey(e.currentTarget.value)} />
+                </div>
+                <p className="text-sm text-muted-foreground">OpenAI-compatible embeddings API for semantic search. Leave empty to use the built-in offline embedder.</p>
+              </div>
+              <Button type="button" onClick={saveConfig} className="self-end">Save</Button>
               <div className="pt-10 pb-2 flex place-content-end border-t">
                 <Button onClick={async () => { await auth.signOut(); setConfigModalOpen(false); }} variant="destructive">Logout</Button>
               </div>
@@ -225,6 +475,8 @@ const SearchBar = ({
       )}
     </>
   );
-};
+});
+
+SearchBar.displayName = "SearchBar";
 
 export default SearchBar;
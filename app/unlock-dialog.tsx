@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogOverlay,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import type { EncryptionStatus, TaskProgress } from "@/lib/storage";
+import type { WorkspaceList } from "@/lib/workspaces";
+import { resetEncryption, unlockEncryption } from "@/lib/storage-client";
+
+/**
+ * Asks for the passphrase of an encrypted workspace. It cannot be dismissed; the way
+ * out is unlocking, switching to another workspace, or deleting the encrypted data.
+ */
+const UnlockDialog = ({
+  status,
+  workspaces,
+  onSwitchWorkspace,
+  onUnlocked,
+}: {
+  status: EncryptionStatus;
+  workspaces: WorkspaceList;
+  onSwitchWorkspace: (id: string) => void;
+  /** Called after unlocking, and after the data was deleted instead. */
+  onUnlocked: () => void;
+}) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const running = progress !== null;
+
+  const unlock = async () => {
+    setError(null);
+    setProgress({ stage: "Checking passphrase", done: 0, total: 0 });
+    try {
+      await unlockEncryption(passphrase, { onProgress: setProgress });
+      onUnlocked();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setProgress(null);
+    }
+  };
+
+  const reset = async () => {
+    if (!window.confirm(`Delete everything saved in "${workspaces.active.name}"? Encrypted pages cannot be recovered without the passphrase.`)) return;
+    setError(null);
+    setProgress({ stage: "Deleting saved data", done: 0, total: 0 });
+    try {
+      await resetEncryption();
+      onUnlocked();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open>
+      <DialogOverlay />
+      <DialogContent className="p-4 rounded-md shadow-md">
+        <DialogHeader>
+          <DialogTitle>Unlock {workspaces.active.name}</DialogTitle>
+          <DialogDescription>
+            {status.migrating
+              ? `Encryption was being turned ${status.migrating === "encrypt" ? "on" : "off"} when this tab last closed. Enter your passphrase to finish.`
+              : "Saved pages in this workspace are encrypted. Enter your passphrase to read and search them."}
+          </DialogDescription>
+        </DialogHeader>
+        <form className="flex flex-col gap-3" onSubmit={(e) => { e.preventDefault(); unlock(); }}>
+          <Input type="password" autoFocus autoComplete="current-password" placeholder="Passphrase" aria-label="Passphrase" value={passphrase} disabled={running} onChange={(e) => setPassphrase(e.currentTarget.value)} />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {progress && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-muted-foreground">
+                <span>{progress.stage}</span>
+                {progress.total > 0 && <span className="tabular-nums">{progress.done} / {progress.total}</span>}
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                <div className="h-full rounded-full bg-[#3bde77]" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+              </div>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Button type="button" variant="ghost" size="sm" className="text-xs text-muted-foreground hover:text-red-400" disabled={running} onClick={reset}>
+              Forgot passphrase?
+            </Button>
+            {workspaces.workspaces.length > 1 && (
+              <Select value={workspaces.active.id} onValueChange={onSwitchWorkspace} disabled={running}>
+                <SelectTrigger className="h-8 text-xs w-40" aria-label="Switch workspace">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaces.workspaces.map((w) => (
+                    <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button type="submit" className="ml-auto" disabled={!passphrase || running}>
+              {running ? "Unlocking..." : "Unlock"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UnlockDialog;
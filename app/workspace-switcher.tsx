@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogOverlay,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  createWorkspace, removeWorkspace, renameWorkspace, setActiveWorkspace, type Workspace, type WorkspaceList,
+} from "@/lib/workspaces";
+
+const NameDialog = ({
+  title,
+  initial,
+  onSave,
+  onClose,
+}: {
+  title: string;
+  initial: string;
+  onSave: (name: string) => void;
+  onClose: () => void;
+}) => {
+  const [name, setName] = useState(initial);
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogOverlay />
+      <DialogContent className="p-4 rounded-md shadow-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Each workspace has its own pages, search index, crawl history and settings.</DialogDescription>
+        </DialogHeader>
+        <form className="flex flex-col gap-3" onSubmit={(e) => { e.preventDefault(); if (name.trim()) onSave(name.trim()); }}>
+          <Input autoFocus placeholder="e.g. Product docs" aria-label="Workspace name" value={name} onChange={(e) => setName(e.currentTarget.value)} />
+          <Button type="submit" className="self-end" disabled={!name.trim()}>Save</Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Workspace picker for the sidebar. Changes go to the workspace list right away; the
+ * parent opens the new active workspace and deletes the database of a removed one.
+ */
+const WorkspaceSwitcher = ({
+  userId,
+  list,
+  disabled,
+  onChange,
+}: {
+  userId: string | null;
+  list: WorkspaceList;
+  /** Set while a crawl is writing to the current workspace. */
+  disabled: boolean;
+  onChange: (list: WorkspaceList, removed?: Workspace) => void;
+}) => {
+  const [editing, setEditing] = useState<"create" | "rename" | null>(null);
+  const { workspaces, active } = list;
+
+  const remove = () => {
+    if (!window.confirm(`Delete the workspace "${active.name}" and everything saved in it?`)) return;
+    onChange(removeWorkspace(userId, active.id), active);
+  };
+
+  return (
+    <div>
+      <h3 className="font-semibold text-xs text-muted-foreground uppercase tracking-wider mb-2">Workspace</h3>
+      <div className="flex items-center gap-1">
+        <Select value={active.id} onValueChange={(id) => onChange(setActiveWorkspace(userId, id))} disabled={disabled}>
+          <SelectTrigger className="h-8 text-xs flex-1 min-w-0" title={disabled ? "Wait for the crawl to finish to switch workspaces" : undefined}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {workspaces.map((w) => (
+              <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="ghost" className="h-8 w-8 p-0 shrink-0 text-muted-foreground hover:text-primary" title="New workspace" disabled={disabled} onClick={() => setEditing("create")}>
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" /></svg>
+        </Button>
+        <Button size="sm" variant="ghost" className="h-8 w-8 p-0 shrink-0 text-muted-foreground hover:text-primary" title={`Rename ${active.name}`} onClick={() => setEditing("rename")}>
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 013.536 3.536L12.536 16.536A2 2 0 0111.12 17.12L8 18l.88-3.12A2 2 0 019 13z" /></svg>
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 w-8 p-0 shrink-0 text-muted-foreground hover:text-red-400"
+          title={workspaces.length > 1 ? `Delete ${active.name}` : "The only workspace cannot be deleted"}
+          disabled={disabled || workspaces.length < 2}
+          onClick={remove}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+        </Button>
+      </div>
+      {editing && (
+        <NameDialog
+          title={editing === "create" ? "New workspace" : `Rename ${active.name}`}
+          initial={editing === "create" ? "" : active.name}
+          onClose={() => setEditing(null)}
+          onSave={(name) => {
+            setEditing(null);
+            onChange(editing === "create" ? createWorkspace(userId, name) : renameWorkspace(userId, active.id, name));
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
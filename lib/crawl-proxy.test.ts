@@ -0,0 +1,119 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { CrawlProxyError, CrawlRateLimiter, identifyUser, loadProxyConfig, rateLimitKey, validateCrawlRequest } from "./crawl-proxy";
+
+const SECRET = "test-secret";
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signToken(claims: object, secret = SECRET): string {
+  const unsigned = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac("sha256", secret).update(unsigned).digest("base64url")}`;
+}
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe("identifyUser", () => {
+  const config = loadProxyConfig({ SUPABASE_JWT_SECRET: SECRET });
+
+  it("accepts a token signed with the secret", async () => {
+    await expect(identifyUser(`Bearer ${signToken({ sub: "user-1", exp: inAnHour() })}`, config)).resolves.toEqual({ id: "user-1", verified: true });
+  });
+
+  it("rejects a token signed with another secret, expired or without a user", async () => {
+    for (const token of [
+      signToken({ sub: "user-1", exp: inAnHour() }, "other-secret"),
+      signToken({ sub: "user-1", exp: Math.floor(Date.now() / 1000) - 1 }),
+      signToken({ exp: inAnHour() }),
+      "not-a-token",
+      null,
+    ]) {
+      await expect(identifyUser(token, config)).rejects.toMatchObject({ name: "CrawlProxyError", status: 401 });
+    }
+  });
+
+  it("only decodes tokens without a secret", async () => {
+    const token = signToken({ sub: "user-2" }, "unknown");
+    await expect(identifyUser(token, loadProxyConfig({}))).resolves.toEqual({ id: "user-2", verified: false });
+  });
+
+  it("checks mock sessions against the mock secret, never the Supabase one", async () => {
+    const mock = loadProxyConfig({ SPIDER_API_URL: "mock", SUPABASE_JWT_SECRET: SECRET, MOCK_JWT_SECRET: "mock-secret" });
+    await expect(identifyUser(signToken({ sub: "user-1" }), mock)).rejects.toBeInstanceOf(CrawlProxyError);
+    await expect(identifyUser(signToken({ sub: "user-1" }, "mock-secret"), mock)).resolves.toMatchObject({ verified: true });
+  });
+});
+
+describe("CrawlRateLimiter", () => {
+  const limits = { crawls: 2, windowMs: 60_000, concurrent: 1 };
+
+  it("limits crawls running at once, until one is released", () => {
+    const limiter = new CrawlRateLimiter({ ...limits, crawls: 10 });
+    const release = limiter.acquire("a", 0);
+    expect(() => limiter.acquire("a", 1)).toThrow(/already have 1 crawls running/);
+    expect(() => limiter.acquire("b", 1)).not.toThrow();
+    release();
+    release();
+    expect(() => limiter.acquire("a", 2)).not.toThrow();
+    expect(() => limiter.acquire("a", 3)).toThrow(CrawlProxyError);
+  });
+
+  it("limits starts within the window and says when to retry", () => {
+    const limiter = new CrawlRateLimiter({ ...limits, concurrent: 10 });
+    limiter.acquire("a", 0);
+    limiter.acquire("a", 10_000);
+    try {
+      limiter.acquire("a", 30_000);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toMatchObject({ status: 429, retryAfterMs: 30_000 });
+    }
+    expect(() => limiter.acquire("a", 60_000)).not.toThrow();
+  });
+
+  it("forgets users once their starts leave the window and nothing is running", () => {
+    const limiter = new CrawlRateLimiter({ ...limits, concurrent: 10 });
+    limiter.acquire("a", 0)();
+    const release = limiter.acquire("b", 0);
+    limiter.acquire("c", 50_000)();
+    expect(limiter.size).toBe(3);
+    limiter.acquire("c", 60_000)();
+    expect(limiter.size).toBe(2);
+    release();
+    expect(limiter.size).toBe(1);
+  });
+});
+
+describe("rateLimitKey", () => {
+  const headers = new Headers({ "x-forwarded-for": "203.0.113.9, 198.51.100.7", "x-real-ip": "192.0.2.1" });
+
+  it("keys verified users by id and everyone else by the address the proxy saw", () => {
+    expect(rateLimitKey({ id: "user-1", verified: true }, headers)).toBe("user:user-1");
+    expect(rateLimitKey({ id: "user-1", verified: false }, headers)).toBe("address:198.51.100.7");
+    expect(rateLimitKey({ id: "user-2", verified: false }, headers)).toBe("address:198.51.100.7");
+    expect(rateLimitKey({ id: "user-1", verified: false }, new Headers({ "x-real-ip": "192.0.2.1" }))).toBe("address:192.0.2.1");
+  });
+});
+
+describe("validateCrawlRequest", () => {
+  const config = loadProxyConfig({ CRAWL_MAX_LIMIT: "50", CRAWL_ALLOWED_HOSTS: "*.example.com", CRAWL_BLOCKED_HOSTS: "internal.example.com" });
+
+  it("keeps only the fields Spider needs", () => {
+    expect(validateCrawlRequest({ url: "https://docs.example.com, https://example.com/blog", limit: 5, extra: true }, config)).toEqual({
+      urls: ["https://docs.example.com", "https://example.com/blog"],
+      limit: 5,
+      return_format: "raw",
+      request: "smart",
+      full_resources: false,
+    });
+  });
+
+  it("rejects hosts outside the allowed list or on the blocked one, and limits over the maximum", () => {
+    expect(() => validateCrawlRequest({ url: "https://other.org", limit: 5 }, config)).toThrow(/not allowed/);
+    expect(() => validateCrawlRequest({ url: "https://api.internal.example.com", limit: 5 }, config)).toThrow(/not allowed/);
+    expect(() => validateCrawlRequest({ url: "https://example.com", limit: 51 }, config)).toThrow(/from 1 to 50/);
+    expect(() => validateCrawlRequest({ url: "file:///etc/passwd", limit: 5 }, config)).toThrow(/not an http/);
+  });
+});
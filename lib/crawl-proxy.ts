@@ -0,0 +1,225 @@
+import ms from "ms";
+import { createMockSpider, MOCK_JWT_SECRET } from "./mock-spider";
+import { createSpiderClient, type SpiderClient } from "./spider-client";
+
+/*
+ * Server side of the /api/crawl route: validates crawl requests, identifies and rate
+ * limits the user, and forwards the request to the Spider API (or the mock server) so
+ * the team key never reaches the browser.
+ */
+
+export const RETURN_FORMATS = ["raw", "markdown", "text"] as const;
+export const REQUEST_TYPES = ["http", "chrome", "smart"] as const;
+
+export interface CrawlRequest {
+  urls: string[];
+  limit: number;
+  return_format: (typeof RETURN_FORMATS)[number];
+  request: (typeof REQUEST_TYPES)[number];
+  full_resources: boolean;
+}
+
+export interface CrawlProxyConfig {
+  /** Spider API base URL, or "mock" for the bundled mock server. */
+  upstream: string;
+  /** Team key sent upstream for verified users, so they need no key of their own. */
+  teamKey?: string;
+  /**
+   * HS256 secret for Supabase access tokens; without it tokens are only decoded. With the
+   * mock upstream it is the mock's own secret, so mock sessions never pass as Supabase ones.
+   */
+  jwtSecret?: string;
+  maxLimit: number;
+  maxUrls: number;
+  /** Hosts that may be crawled, subdomains included. Empty allows every host. */
+  allowedHosts: string[];
+  blockedHosts: string[];
+  rateLimit: { crawls: number; windowMs: number; concurrent: number };
+}
+
+/** An error with the HTTP status the route responds with. */
+export class CrawlProxyError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "CrawlProxyError";
+  }
+}
+
+function hostList(value: string | undefined): string[] {
+  return (value || "").split(",").map((host) => host.trim().toLowerCase().replace(/^\*?\./, "")).filter(Boolean);
+}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function loadProxyConfig(env: Record<string, string | undefined> = process.env): CrawlProxyConfig {
+  const upstream = env.SPIDER_API_URL || env.NEXT_PUBLIC_API_URL || "https://api.spider.cloud";
+  return {
+    upstream,
+    teamKey: env.SPIDER_API_KEY || undefined,
+    jwtSecret: upstream === "mock" ? env.MOCK_JWT_SECRET || MOCK_JWT_SECRET : env.SUPABASE_JWT_SECRET || undefined,
+    maxLimit: positiveInt(env.CRAWL_MAX_LIMIT, 1000),
+    maxUrls: positiveInt(env.CRAWL_MAX_URLS, 10),
+    allowedHosts: hostList(env.CRAWL_ALLOWED_HOSTS),
+    blockedHosts: hostList(env.CRAWL_BLOCKED_HOSTS),
+    rateLimit: {
+      crawls: positiveInt(env.CRAWL_RATE_LIMIT, 20),
+      windowMs: (env.CRAWL_RATE_WINDOW && ms(env.CRAWL_RATE_WINDOW)) || ms("1h"),
+      concurrent: positiveInt(env.CRAWL_MAX_CONCURRENT, 2),
+    },
+  };
+}
+
+function matchesHost(hostname: string, hosts: string[]): boolean {
+  return hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+/** Checks a request body from the search bar and keeps only the fields Spider needs. */
+export function validateCrawlRequest(body: unknown, config: CrawlProxyConfig): CrawlRequest {
+  if (!body || typeof body !== "object") throw new CrawlProxyError("Expected a JSON object.", 400);
+  const input = body as Record<string, unknown>;
+
+  const urls = typeof input.url === "string" ? input.url.split(",").map((url) => url.trim()).filter(Boolean) : [];
+  if (!urls.length) throw new CrawlProxyError("Enter at least one URL to crawl.", 400);
+  if (urls.length > config.maxUrls) throw new CrawlProxyError(`At most ${config.maxUrls} URLs can be crawled at once.`, 400);
+  for (const url of urls) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new CrawlProxyError(`${url} is not a valid URL.`, 400);
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") throw new CrawlProxyError(`${url} is not an http(s) URL.`, 400);
+    const hostname = parsed.hostname.toLowerCase();
+    if (matchesHost(hostname, config.blockedHosts) || (config.allowedHosts.length && !matchesHost(hostname, config.allowedHosts))) {
+      throw new CrawlProxyError(`Crawling ${hostname} is not allowed on this server.`, 403);
+    }
+  }
+
+  const limit = Number(input.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > config.maxLimit) {
+    throw new CrawlProxyError(`The crawl limit must be a whole number from 1 to ${config.maxLimit}.`, 400);
+  }
+  const returnFormat = input.return_format ?? "raw";
+  if (!RETURN_FORMATS.includes(returnFormat as CrawlRequest["return_format"])) throw new CrawlProxyError(`Unknown return format ${returnFormat}.`, 400);
+  const request = input.request ?? "smart";
+  if (!REQUEST_TYPES.includes(request as CrawlRequest["request"])) throw new CrawlProxyError(`Unknown request type ${request}.`, 400);
+
+  return {
+    urls,
+    limit,
+    return_format: returnFormat as CrawlRequest["return_format"],
+    request: request as CrawlRequest["request"],
+    full_resources: input.full_resources === true,
+  };
+}
+
+export interface CrawlUser {
+  id: string;
+  /** Whether the token's signature was checked against the Supabase secret. */
+  verified: boolean;
+}
+
+function base64UrlDecode(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * The user behind a Supabase access token. With a JWT secret the signature and expiry
+ * are checked; without one the token is only decoded, and the Spider API checks it.
+ */
+export async function identifyUser(token: string | null, config: CrawlProxyConfig): Promise<CrawlUser> {
+  const jwt = token?.replace(/^Bearer\s+/i, "").trim();
+  if (!jwt) throw new CrawlProxyError("Sign in to crawl.", 401);
+  const [header, payload, signature] = jwt.split(".");
+  let claims: { sub?: unknown; exp?: unknown };
+  try {
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+  } catch {
+    throw new CrawlProxyError("The session token is not readable. Sign in again.", 401);
+  }
+  if (typeof claims.sub !== "string" || !claims.sub) throw new CrawlProxyError("The session token has no user. Sign in again.", 401);
+  if (typeof claims.exp === "number" && claims.exp * 1000 <= Date.now()) throw new CrawlProxyError("Your session expired. Sign in again.", 401);
+
+  if (!config.jwtSecret) return { id: claims.sub, verified: false };
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(config.jwtSecret), { name: "HMAC", hash: "SHA-256" }, false, ["verify"]);
+  const valid = await crypto.subtle.verify("HMAC", key, base64UrlDecode(signature || ""), new TextEncoder().encode(`${header}.${payload}`));
+  if (!valid) throw new CrawlProxyError("The session token is not valid. Sign in again.", 401);
+  return { id: claims.sub, verified: true };
+}
+
+/**
+ * The key a request is rate limited under. Only a verified user id is trusted; anyone can
+ * write an unverified token, so those requests are limited by the client address instead.
+ * The address is the last hop in `x-forwarded-for`, the one added by the proxy in front
+ * of the server rather than by the client.
+ */
+export function rateLimitKey(user: CrawlUser, headers: Headers): string {
+  if (user.verified) return `user:${user.id}`;
+  const forwarded = headers.get("x-forwarded-for")?.split(",").map((hop) => hop.trim()).filter(Boolean).pop();
+  return `address:${forwarded || headers.get("x-real-ip")?.trim() || "unknown"}`;
+}
+
+/**
+ * Per-user crawl limits: starts within a sliding window, and streams open at once.
+ * Counts live in memory, so each server instance enforces its own.
+ */
+export class CrawlRateLimiter {
+  private starts = new Map<string, number[]>();
+  private running = new Map<string, number>();
+
+  constructor(private limits: CrawlProxyConfig["rateLimit"]) {}
+
+  /** Reserves a crawl for the user and returns the function that releases it; calling it again does nothing. */
+  acquire(userId: string, now = Date.now()): () => void {
+    this.prune(now);
+    const recent = (this.starts.get(userId) || []).filter((time) => now - time < this.limits.windowMs);
+    if ((this.running.get(userId) || 0) >= this.limits.concurrent) {
+      throw new CrawlProxyError(`You already have ${this.limits.concurrent} crawls running. Wait for one to finish.`, 429);
+    }
+    if (recent.length >= this.limits.crawls) {
+      throw new CrawlProxyError(
+        `You have started ${this.limits.crawls} crawls in the last ${ms(this.limits.windowMs, { long: true })}. Try again later.`,
+        429,
+        recent[0] + this.limits.windowMs - now
+      );
+    }
+    this.starts.set(userId, [...recent, now]);
+    this.running.set(userId, (this.running.get(userId) || 0) + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const count = (this.running.get(userId) || 1) - 1;
+      if (count) this.running.set(userId, count);
+      else this.running.delete(userId);
+    };
+  }
+
+  /** Drops users whose starts have all left the window, so the map only holds recent users. */
+  private prune(now: number) {
+    this.starts.forEach((times, userId) => {
+      if (!times.length || now - times[times.length - 1] >= this.limits.windowMs) this.starts.delete(userId);
+    });
+  }
+
+  /** Number of users with starts in the window or crawls running. */
+  get size(): number {
+    return new Set([...Array.from(this.starts.keys()), ...Array.from(this.running.keys())]).size;
+  }
+}
+
+/**
+ * Client for the upstream Spider API. With `upstream` set to "mock" requests go to the
+ * in-process mock server instead of the network.
+ */
+export function createUpstreamClient(config: CrawlProxyConfig): SpiderClient {
+  if (config.upstream !== "mock") return createSpiderClient({ baseUrl: config.upstream });
+  const mock = createMockSpider({ jwtSecret: config.jwtSecret });
+  return createSpiderClient({ baseUrl: "http://mock.spider", fetch: (input, init) => mock(new Request(input, init)) });
+}
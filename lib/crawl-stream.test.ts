@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parseCrawlLines } from "./crawl-stream";
+
+describe("parseCrawlLines", () => {
+  it("turns each JSONL line into a stored page tagged with the crawl", () => {
+    const { pages, malformed, unreadable } = parseCrawlLines([
+      JSON.stringify({ url: "https://a.com/", content: "<html><head><title>Home</title></head><body><p>Hello</p></body></html>", status: 200 }),
+      "   ",
+      JSON.stringify({ url: "https://a.com/gone", error: "Not found", status: 404 }),
+    ], "crawl-1");
+    expect({ malformed, unreadable }).toEqual({ malformed: 0, unreadable: 0 });
+    expect(pages.map((p) => [p.url, p.domain, p.status, p.crawlId, p.title])).toEqual([
+      ["https://a.com/", "a.com", 200, "crawl-1", "Home"],
+      ["https://a.com/gone", "a.com", 404, "crawl-1", null],
+    ]);
+  });
+
+  it("skips lines without a URL", () => {
+    expect(parseCrawlLines([JSON.stringify({ content: "orphan" })]).pages).toEqual([]);
+  });
+
+  it("keeps malformed lines with a URL as failed pages so they can be retried", () => {
+    const { pages, malformed, unreadable } = parseCrawlLines(['{"url": "https://a.com/cut", "content": "<p>trunc', '{"content": "no url']);
+    expect({ malformed, unreadable }).toEqual({ malformed: 2, unreadable: 1 });
+    expect(pages).toHaveLength(1);
+    expect(pages[0]).toMatchObject({ url: "https://a.com/cut", error: "Malformed JSON in crawl stream", content: "" });
+  });
+});
@@ -0,0 +1,32 @@
+import { toStoredPage, type StoredPage } from "./storage";
+
+export interface ParsedLines {
+  pages: StoredPage[];
+  /** Lines that were not valid JSON, including ones recovered as failed pages. */
+  malformed: number;
+  /** Malformed lines without a URL to tie them to. */
+  unreadable: number;
+}
+
+/**
+ * Parses complete JSONL lines from a Spider crawl stream. Malformed lines become failed
+ * pages when their URL can be recovered, so they can be retried; otherwise they are
+ * only counted.
+ */
+export function parseCrawlLines(lines: string[], crawlId?: string): ParsedLines {
+  const result: ParsedLines = { pages: [], malformed: 0, unreadable: 0 };
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const page = JSON.parse(trimmed);
+      if (page?.url) result.pages.push(toStoredPage(page, crawlId));
+    } catch {
+      result.malformed++;
+      const url = trimmed.match(/"url"\s*:\s*"([^"]+)"/)?.[1];
+      if (url) result.pages.push(toStoredPage({ url, error: "Malformed JSON in crawl stream" }, crawlId));
+      else result.unreadable++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,134 @@
+import { tokenize } from "./search-index";
+
+// Where settings lived before each workspace kept its own.
+const LEGACY_SETTINGS_KEY = "spider_embedding_settings";
+const HASH_DIMENSIONS = 512;
+const CHUNK_WORDS = 200;
+const CHUNK_OVERLAP = 40;
+const MAX_CHUNKS_PER_PAGE = 32;
+const HTTP_BATCH_SIZE = 64;
+
+export interface Embedder {
+  /** Stored with every vector so spaces from different embedders are never compared. */
+  id: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export interface EmbeddingSettings {
+  endpoint: string;
+  apiKey?: string;
+  model?: string;
+}
+
+/**
+ * Removes and returns the settings this browser kept for every workspace before they
+ * moved into each workspace's database, so the first workspace opened can take them.
+ */
+export function takeLegacyEmbeddingSettings(): EmbeddingSettings | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(LEGACY_SETTINGS_KEY);
+    localStorage.removeItem(LEGACY_SETTINGS_KEY);
+    const settings = raw ? (JSON.parse(raw) as EmbeddingSettings) : null;
+    return settings?.endpoint ? settings : null;
+  } catch {
+    return null;
+  }
+}
+
+// FNV-1a, 32-bit.
+function hash(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+}
+
+/**
+ * Offline embedder: hashes stemmed words, word bigrams and character trigrams into a
+ * fixed-size signed vector with sublinear term weighting. Needs no model or network.
+ */
+export function createHashingEmbedder(dimensions = HASH_DIMENSIONS): Embedder {
+  const embedOne = (text: string): Float32Array => {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+    const terms = tokenize(text);
+    terms.forEach((term, i) => {
+      add(`w:${term}`, 1);
+      if (i > 0) add(`b:${terms[i - 1]} ${term}`, 0.5);
+      const padded = `^${term}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`, 0.25);
+    });
+    const vector = new Float32Array(dimensions);
+    counts.forEach((weight, feature) => {
+      const h = hash(feature);
+      vector[h % dimensions] += (h & 0x80000000 ? -1 : 1) * Math.log1p(weight);
+    });
+    return normalize(vector);
+  };
+  return {
+    id: `hash-${dimensions}`,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+/**
+ * Calls an OpenAI-compatible embeddings endpoint: POST `{ input, model }`, expecting
+ * `{ data: [{ embedding }] }` (or a bare `{ embeddings: number[][] }`) in return.
+ */
+export function createHttpEmbedder({ endpoint, apiKey, model }: EmbeddingSettings): Embedder {
+  return {
+    id: `http:${endpoint}${model ? `#${model}` : ""}`,
+    embed: async (texts) => {
+      const vectors: Float32Array[] = [];
+      for (let i = 0; i < texts.length; i += HTTP_BATCH_SIZE) {
+        const res = await fetch(endpoint, {
+          method: "POST",
+          headers: { "content-type": "application/json", ...(apiKey && { authorization: `Bearer ${apiKey}` }) },
+          body: JSON.stringify({ input: texts.slice(i, i + HTTP_BATCH_SIZE), ...(model && { model }) }),
+        });
+        if (!res.ok) throw new Error(`Embedding endpoint returned ${res.status}`);
+        const json = await res.json();
+        const batch: number[][] | undefined = json?.embeddings ?? json?.data?.map((d: { embedding: number[] }) => d.embedding);
+        if (!Array.isArray(batch) || batch.length !== Math.min(HTTP_BATCH_SIZE, texts.length - i)) {
+          throw new Error("Embedding endpoint returned an unexpected response");
+        }
+        vectors.push(...batch.map((v) => normalize(Float32Array.from(v))));
+      }
+      return vectors;
+    },
+  };
+}
+
+export const localEmbedder = createHashingEmbedder();
+
+
+/** Splits a page's plain text into overlapping windows of words. */
+export function chunkText(text: string): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (!words.length) return [];
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length && chunks.length < MAX_CHUNKS_PER_PAGE; i += CHUNK_WORDS - CHUNK_OVERLAP) {
+    chunks.push(words.slice(i, i + CHUNK_WORDS).join(" "));
+    if (i + CHUNK_WORDS >= words.length) break;
+  }
+  return chunks;
+}
+
+/** Both vectors are unit length, so this is their dot product. */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
@@ -0,0 +1,121 @@
+/*
+ * WebCrypto helpers for encrypting saved pages with a passphrase. PBKDF2 turns the
+ * passphrase into an AES-GCM key for page content and an HMAC key that hashes search
+ * terms into index keys, so the index can still be looked up without holding words.
+ */
+
+const ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// Index keys keep this many bytes of the term's HMAC.
+const TERM_KEY_BYTES = 16;
+// Encrypted with a new key, so the passphrase can be checked before anything is decrypted.
+const CHECK_TEXT = "spider-knowledge-base";
+
+export interface SealedData {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+/** Saved with the database: enough to derive the key again and check a passphrase. */
+export interface KeyCheck {
+  id: string;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  check: SealedData;
+}
+
+export interface EncryptionKeys {
+  /** The `id` of the key check the keys were derived for. */
+  id: string;
+  cipher: CryptoKey;
+  blind: CryptoKey;
+}
+
+export class EncryptionLockedError extends Error {
+  constructor(message = "The knowledge base is locked. Enter your passphrase to unlock it.") {
+    super(message);
+    this.name = "EncryptionLockedError";
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("That passphrase does not unlock this knowledge base.");
+    this.name = "WrongPassphraseError";
+  }
+}
+
+const termKeys = new WeakMap<EncryptionKeys, Map<string, string>>();
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function deriveKeys(passphrase: string, check: Omit<KeyCheck, "check">): Promise<EncryptionKeys> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", salt: check.salt, iterations: check.iterations, hash: "SHA-256" }, material, 512);
+  const [cipher, blind] = await Promise.all([
+    crypto.subtle.importKey("raw", bits.slice(0, 32), "AES-GCM", false, ["encrypt", "decrypt"]),
+    crypto.subtle.importKey("raw", bits.slice(32), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]),
+  ]);
+  return { id: check.id, cipher, blind };
+}
+
+export async function seal(keys: EncryptionKeys, bytes: Uint8Array<ArrayBuffer>): Promise<SealedData> {
+  const iv = randomBytes(IV_BYTES);
+  return { iv, data: await crypto.subtle.encrypt({ name: "AES-GCM", iv }, keys.cipher, bytes) };
+}
+
+export async function open(keys: EncryptionKeys, sealed: SealedData): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: sealed.iv }, keys.cipher, sealed.data));
+}
+
+export function sealJson(keys: EncryptionKeys, value: unknown): Promise<SealedData> {
+  return seal(keys, new TextEncoder().encode(JSON.stringify(value)));
+}
+
+export async function openJson<T>(keys: EncryptionKeys, sealed: SealedData): Promise<T> {
+  return JSON.parse(new TextDecoder().decode(await open(keys, sealed)));
+}
+
+/** A truncated HMAC of `value`: equal values give equal hashes under the same keys, and nothing else can be read from it. */
+export async function keyedHash(keys: EncryptionKeys, value: string): Promise<string> {
+  const mac = await crypto.subtle.sign("HMAC", keys.blind, new TextEncoder().encode(value));
+  return toBase64Url(new Uint8Array(mac, 0, TERM_KEY_BYTES));
+}
+
+/** The index key of a search term, cached since the same terms come up again and again. */
+export async function blindTerm(keys: EncryptionKeys, term: string): Promise<string> {
+  let cache = termKeys.get(keys);
+  if (!cache) termKeys.set(keys, (cache = new Map()));
+  const cached = cache.get(term);
+  if (cached) return cached;
+  const key = await keyedHash(keys, term);
+  cache.set(term, key);
+  return key;
+}
+
+/** New keys for a passphrase, with the check to store so they can be derived again. */
+export async function createKeys(passphrase: string): Promise<{ keys: EncryptionKeys; check: KeyCheck }> {
+  const params = { id: toBase64Url(randomBytes(9)), salt: randomBytes(SALT_BYTES), iterations: ITERATIONS };
+  const keys = await deriveKeys(passphrase, params);
+  return { keys, check: { ...params, check: await sealJson(keys, CHECK_TEXT) } };
+}
+
+/** Derives the keys of a stored check, throwing `WrongPassphraseError` when the passphrase does not match. */
+export async function unlockKeys(passphrase: string, check: KeyCheck): Promise<EncryptionKeys> {
+  const keys = await deriveKeys(passphrase, check);
+  try {
+    if ((await openJson(keys, check.check)) === CHECK_TEXT) return keys;
+  } catch {
+    // AES-GCM rejects ciphertext under the wrong key.
+  }
+  throw new WrongPassphraseError();
+}
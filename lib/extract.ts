@@ -0,0 +1,301 @@
+import { extractTitle, stripHtml } from "./search-index";
+
+// Runs in the storage worker, where there is no DOMParser, so HTML is read with a
+// small tag scanner rather than a DOM.
+
+export interface Heading {
+  level: number;
+  text: string;
+  /** The heading's `id` attribute, usable as a URL fragment. */
+  id?: string;
+}
+
+/** A run of `text` under one h1–h3 heading, up to the next one. */
+export interface Passage {
+  /** Titles of the enclosing headings, outermost first. Empty before the first heading. */
+  path: string[];
+  /** Fragment of the heading that opens the passage, when it has one. */
+  anchor?: string;
+  /** Offsets into `text`. */
+  start: number;
+  end: number;
+}
+
+/** Structured fields pulled out of a page when it is saved. */
+export interface ExtractedContent {
+  title: string | null;
+  description: string | null;
+  canonical: string | null;
+  lang: string | null;
+  headings: Heading[];
+  /** Main-content text without boilerplate, one block per line. */
+  text: string;
+  wordCount: number;
+  passages: Passage[];
+}
+
+export const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+// Never content: skipped with everything inside them.
+export const HIDDEN_TAGS = new Set(["script", "style", "noscript", "template", "svg", "iframe", "canvas", "select", "button"]);
+// Page chrome around the content.
+export const BOILERPLATE_TAGS = new Set(["nav", "header", "footer", "aside", "form", "dialog"]);
+const BOILERPLATE_ATTR = /\b(nav|navbar|menu|footer|sidebar|side-bar|breadcrumbs?|cookie|consent|banner|share|social|advert|ads|promo|popup|modal|skip-link|toc)\b/i;
+const BLOCK_TAGS = new Set([
+  "address", "article", "blockquote", "dd", "div", "dl", "dt", "figcaption", "figure", "h1", "h2", "h3", "h4", "h5", "h6",
+  "hr", "li", "main", "ol", "p", "pre", "section", "table", "td", "th", "tr", "ul", "br",
+]);
+// Deeper headings stay inside their h3's passage.
+const MAX_PASSAGE_LEVEL = 3;
+// Below this many words a <main> or <article> is probably a teaser, not the page body.
+const MIN_MAIN_WORDS = 25;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", ndash: "–", mdash: "—", hellip: "…",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", laquo: "«", raquo: "»", copy: "©", reg: "®", trade: "™",
+  middot: "·", bull: "•", times: "×", deg: "°", euro: "€", pound: "£",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, double, single, bare] of source.matchAll(/([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attrs[name.toLowerCase()] = decodeEntities(double ?? single ?? bare ?? "");
+  }
+  return attrs;
+}
+
+function collapse(text: string): string {
+  return text.replace(/[ \t\f\v\r ]+/g, " ").split("\n").map((line) => line.trim()).filter(Boolean).join("\n");
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function extractHtml(html: string, url: string): ExtractedContent {
+  const source = html.replace(/<!--[\s\S]*?-->/g, "");
+  let title: string | null = null;
+  let description: string | null = null;
+  let ogDescription: string | null = null;
+  let canonical: string | null = null;
+  let lang: string | null = null;
+
+  // Text is collected twice: for the whole body and for the <main>/<article> region.
+  const all: string[] = [];
+  const main: string[] = [];
+  const allHeadings: Heading[] = [];
+  const mainHeadings: Heading[] = [];
+  let skip: { tag: string; depth: number } | null = null;
+  let mainDepth = 0;
+  let heading: { heading: Heading; parts: string[]; inMain: boolean } | null = null;
+  let titleParts: string[] | null = null;
+
+  const emit = (text: string) => {
+    all.push(text);
+    if (mainDepth > 0) main.push(text);
+    heading?.parts.push(text);
+  };
+
+  for (const [, closing, rawName, attrSource, text] of source.matchAll(/<(\/?)([a-zA-Z][\w:-]*)([^>]*)>|([^<]+)/g)) {
+    if (text !== undefined) {
+      if (titleParts) titleParts.push(text);
+      else if (!skip) emit(decodeEntities(text));
+      continue;
+    }
+    const tag = rawName.toLowerCase();
+    if (skip) {
+      if (tag === skip.tag && !VOID_TAGS.has(tag)) {
+        skip.depth += closing ? -1 : 1;
+        if (skip.depth === 0) skip = null;
+      }
+      continue;
+    }
+    if (closing) {
+      if (tag === "title" && titleParts) {
+        title = title ?? decodeEntities(titleParts.join("")).trim();
+        titleParts = null;
+      } else if ((tag === "main" || tag === "article") && mainDepth > 0) {
+        mainDepth--;
+      } else if (/^h[1-6]$/.test(tag) && heading) {
+        heading.heading.text = collapse(heading.parts.join("")).replace(/\n/g, " ");
+        if (heading.heading.text) {
+          allHeadings.push(heading.heading);
+          if (heading.inMain) mainHeadings.push(heading.heading);
+        }
+        heading = null;
+      }
+      if (BLOCK_TAGS.has(tag)) emit("\n");
+      continue;
+    }
+
+    const attrs = parseAttributes(attrSource);
+    switch (tag) {
+      case "html":
+        lang = attrs.lang || lang;
+        break;
+      case "title":
+        if (!title) titleParts = [];
+        continue;
+      case "meta": {
+        const name = (attrs.name || attrs.property || "").toLowerCase();
+        if (name === "description") description = attrs.content?.trim() || description;
+        else if (name === "og:description") ogDescription = attrs.content?.trim() || ogDescription;
+        else if (name === "og:title" && !title) title = attrs.content?.trim() || null;
+        break;
+      }
+      case "link":
+        if (/\bcanonical\b/i.test(attrs.rel || "") && attrs.href) {
+          try { canonical = new URL(attrs.href, url).href; } catch {}
+        }
+        break;
+    }
+    if (VOID_TAGS.has(tag)) {
+      if (BLOCK_TAGS.has(tag)) emit("\n");
+      continue;
+    }
+    const classes = `${attrs.class || ""} ${attrs.id || ""} ${attrs.role || ""}`;
+    if (
+      HIDDEN_TAGS.has(tag) || BOILERPLATE_TAGS.has(tag) || "hidden" in attrs || attrs["aria-hidden"] === "true" ||
+      (tag !== "main" && tag !== "article" && tag !== "body" && BOILERPLATE_ATTR.test(classes)) ||
+      /^(navigation|banner|contentinfo|complementary)$/.test(attrs.role || "")
+    ) {
+      skip = { tag, depth: 1 };
+      continue;
+    }
+    if (tag === "main" || tag === "article" || attrs.role === "main") mainDepth++;
+    if (/^h[1-6]$/.test(tag)) {
+      heading = { heading: { level: Number(tag[1]), text: "", ...(attrs.id && { id: attrs.id }) }, parts: [], inMain: mainDepth > 0 };
+    }
+    if (BLOCK_TAGS.has(tag)) emit("\n");
+  }
+
+  const mainText = collapse(main.join(""));
+  const useMain = countWords(mainText) >= MIN_MAIN_WORDS;
+  const text = useMain ? mainText : collapse(all.join(""));
+  const headings = useMain ? mainHeadings : allHeadings;
+  return {
+    title: title || headings.find((h) => h.level === 1)?.text || null,
+    description: description || ogDescription,
+    canonical,
+    lang,
+    headings,
+    text,
+    wordCount: countWords(text),
+    passages: splitPassages(text, headings),
+  };
+}
+
+function extractMarkdown(markdown: string): ExtractedContent {
+  const headings: Heading[] = [];
+  const lines: string[] = [];
+  const slugs = new Map<string, number>();
+  let fenced = false;
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      fenced = !fenced;
+      continue;
+    }
+    const match = !fenced && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      const text = stripInlineMarkdown(match[2]);
+      headings.push({ level: match[1].length, text, id: uniqueSlug(text, slugs) });
+    }
+    lines.push(fenced ? line : stripInlineMarkdown(match ? match[2] : line.replace(/^\s*(?:[-*+>]|\d+\.)\s+/, "")));
+  }
+  const text = collapse(lines.join("\n"));
+  return {
+    title: headings.find((h) => h.level === 1)?.text ?? headings[0]?.text ?? null,
+    description: null,
+    canonical: null,
+    lang: null,
+    headings,
+    text,
+    wordCount: countWords(text),
+    passages: splitPassages(text, headings),
+  };
+}
+
+/** GitHub-style heading anchors: `## Getting started` twice becomes `getting-started` and `getting-started-1`. */
+function uniqueSlug(text: string, seen: Map<string, number>): string {
+  const slug = text.toLowerCase().trim().replace(/[^\p{L}\p{N}\s_-]/gu, "").replace(/\s/g, "-");
+  const count = seen.get(slug) ?? 0;
+  seen.set(slug, count + 1);
+  return count ? `${slug}-${count}` : slug;
+}
+
+/**
+ * Cuts `text` at each h1–h3 heading. Headings sit on lines of their own in `text`, in
+ * outline order, so they are matched line by line.
+ */
+function splitPassages(text: string, headings: Heading[]): Passage[] {
+  const outline = headings.filter((h) => h.level <= MAX_PASSAGE_LEVEL);
+  const passages: Passage[] = [];
+  const trail: Heading[] = [];
+  let current: Passage = { path: [], start: 0, end: 0 };
+  let next = 0;
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    const heading = outline[next];
+    if (heading && line === heading.text) {
+      next++;
+      current.end = offset;
+      if (current.end > current.start) passages.push(current);
+      while (trail.length && trail[trail.length - 1].level >= heading.level) trail.pop();
+      trail.push(heading);
+      current = { path: trail.map((h) => h.text), ...(heading.id && { anchor: heading.id }), start: offset, end: 0 };
+    }
+    offset += line.length + 1;
+  }
+  current.end = text.length;
+  if (current.end > current.start) passages.push(current);
+  return passages;
+}
+
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*|__|\*|_|~~)(\S(?:.*?\S)?)\1/g, "$2")
+    .replace(/<[^>]+>/g, "");
+}
+
+export function isHtml(content: string): boolean {
+  return /^\s*</.test(content) || /<(html|body|head|div|p)\b/i.test(content.slice(0, 2048));
+}
+
+export function extractContent(content: string, url: string): ExtractedContent {
+  return isHtml(content) ? extractHtml(content, url) : extractMarkdown(content);
+}
+
+/** The page title: extracted at save time, or read from the raw content for older records. */
+export function pageTitle(page: { content: string; title?: string | null }): string {
+  return page.title ?? extractTitle(page.content) ?? "";
+}
+
+/** A page's passages; older records without them are one passage. */
+export function pagePassages(page: { content: string; text?: string; passages?: Passage[] }): Passage[] {
+  return page.passages ?? [{ path: [], start: 0, end: pageText(page).length }];
+}
+
+/** A passage's text, without the heading line that opens it. */
+export function passageText(page: { content: string; text?: string }, passage: Passage): string {
+  const text = pageText(page).slice(passage.start, passage.end);
+  return passage.path.length ? text.slice(text.indexOf("\n") + 1) : text;
+}
+
+/** The page body as plain text: extracted at save time, or stripped from the raw content for older records. */
+export function pageText(page: { content: string; text?: string }): string {
+  return page.text ?? stripHtml(page.content);
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { clusterFingerprints, hammingDistance, MAX_DISTANCE, simhash } from "./fingerprint";
+
+const article = Array.from({ length: 40 }, (_, i) => `sentence ${i} about crawling websites and indexing their pages`).join(". ");
+
+describe("simhash", () => {
+  it("returns 16 hex digits, the same for the same text", () => {
+    expect(simhash(article)).toMatch(/^[0-9a-f]{16}$/);
+    expect(simhash(article)).toBe(simhash(article));
+  });
+
+  it("is null without words", () => {
+    expect(simhash("")).toBeNull();
+    expect(simhash(" ... ")).toBeNull();
+  });
+
+  it("keeps a small edit within MAX_DISTANCE and sets unrelated text far apart", () => {
+    const base = simhash(article)!;
+    expect(hammingDistance(base, simhash(`${article} one more line`)!)).toBeLessThanOrEqual(MAX_DISTANCE);
+    expect(hammingDistance(base, simhash("a recipe for tomato soup with basil, garlic and a pinch of salt")!)).toBeGreaterThan(MAX_DISTANCE);
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts differing bits across both halves", () => {
+    expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+    expect(hammingDistance("0000000100000000", "0000000000000001")).toBe(2);
+    expect(hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+  });
+});
+
+describe("clusterFingerprints", () => {
+  it("groups fingerprints within MAX_DISTANCE bits, transitively", () => {
+    const clusters = clusterFingerprints([
+      ["a", "0000000000000000"],
+      ["b", "0000000000000007"],
+      ["c", "000000000000003f"],
+      ["d", "ffffffffffffffff"],
+    ]);
+    expect(clusters).toEqual([["a", "b", "c"]]);
+  });
+
+  it("finds pairs that agree on a single band", () => {
+    expect(clusterFingerprints([["a", "1000100010000000"], ["b", "0000000000000000"]])).toEqual([["a", "b"]]);
+  });
+
+  it("leaves out fingerprints without a near-duplicate", () => {
+    expect(clusterFingerprints([["a", "0000000000000000"], ["b", "00000000000000ff"]])).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { words } from "./search-index";
+
+// Words per shingle. Three keeps fingerprints stable under small edits while still
+// telling apart pages that share a vocabulary.
+const SHINGLE_SIZE = 3;
+/** Fingerprints at most this many bits apart are near-duplicates. */
+export const MAX_DISTANCE = 3;
+// 64 bits in 4 bands of 16: two fingerprints within MAX_DISTANCE bits agree on at least one band.
+const BANDS = 4;
+
+function fnv1a(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 64-bit SimHash of a text's word shingles, as 16 hex digits. Near-identical texts get
+ * fingerprints a few bits apart. Null when there are no words to hash.
+ */
+export function simhash(text: string): string | null {
+  const tokens = words(text);
+  if (!tokens.length) return null;
+  const weights = new Int32Array(64);
+  const count = Math.max(1, tokens.length - SHINGLE_SIZE + 1);
+  for (let i = 0; i < count; i++) {
+    const shingle = tokens.slice(i, i + SHINGLE_SIZE).join(" ");
+    const halves = [fnv1a(shingle, 0x811c9dc5), fnv1a(shingle, 0x050c5d1f)];
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+  const halves = [0, 0];
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) halves[bit >> 5] |= 1 << (bit & 31);
+  }
+  return halves.map((half) => (half >>> 0).toString(16).padStart(8, "0")).join("");
+}
+
+function popcount(n: number): number {
+  n -= (n >>> 1) & 0x55555555;
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (Math.imul((n + (n >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+}
+
+export function hammingDistance(a: string, b: string): number {
+  return popcount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+    popcount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16));
+}
+
+/**
+ * Groups keys whose fingerprints are within `MAX_DISTANCE` bits, transitively. Only
+ * pairs sharing a band are compared, so this stays close to linear. Returns groups of
+ * two or more.
+ */
+export function clusterFingerprints(fingerprints: [key: string, fingerprint: string][]): string[][] {
+  const parent = fingerprints.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const bandWidth = 16 / BANDS;
+  for (let band = 0; band < BANDS; band++) {
+    const buckets = new Map<string, number[]>();
+    fingerprints.forEach(([, fingerprint], i) => {
+      const key = fingerprint.slice(band * bandWidth, (band + 1) * bandWidth);
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    });
+    buckets.forEach((members) => {
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          const [a, b] = [find(members[i]), find(members[j])];
+          if (a !== b && hammingDistance(fingerprints[members[i]][1], fingerprints[members[j]][1]) <= MAX_DISTANCE) parent[b] = a;
+        }
+      }
+    });
+  }
+  const groups = new Map<number, string[]>();
+  fingerprints.forEach(([key], i) => {
+    const group = groups.get(find(i));
+    if (group) group.push(key);
+    else groups.set(find(i), [key]);
+  });
+  return Array.from(groups.values()).filter((group) => group.length > 1);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { ImportFormatError, parseImportFile } from "./import";
+
+const FALLBACK = Date.UTC(2024, 0, 1);
+
+describe("parseImportFile", () => {
+  it("reads the JSON export", () => {
+    const text = JSON.stringify([
+      { url: "https://a.com/", content: "<p>a</p>", status: 200, domain: "a.com", timestamp: 1700000000000 },
+      { url: "https://a.com/missing", error: "Not found", status: 404 },
+    ]);
+    expect(parseImportFile("export.json", text, FALLBACK)).toEqual({
+      format: "json",
+      invalid: 0,
+      pages: [
+        { url: "https://a.com/", content: "<p>a</p>", error: undefined, status: 200, timestamp: 1700000000000 },
+        { url: "https://a.com/missing", content: undefined, error: "Not found", status: 404, timestamp: FALLBACK },
+      ],
+    });
+  });
+
+  it("rejects a JSON array that does not parse", () => {
+    expect(() => parseImportFile("export.json", "[{", FALLBACK)).toThrow(ImportFormatError);
+    expect(() => parseImportFile("pages.txt", " [1", FALLBACK)).toThrow(/Not valid JSON/);
+  });
+
+  it("reads Spider JSONL output line by line, counting unreadable lines", () => {
+    const text = [
+      JSON.stringify({ url: "https://a.com/1", content: "one", status: "200" }),
+      "",
+      "{not json",
+      JSON.stringify({ url: "ftp://a.com/file", content: "skip" }),
+      JSON.stringify({ url: "https://a.com/2", content: "two", timestamp: "2024-02-01T00:00:00Z" }),
+    ].join("\n");
+    const parsed = parseImportFile("crawl.jsonl", text, FALLBACK);
+    expect(parsed.format).toBe("jsonl");
+    expect(parsed.invalid).toBe(2);
+    expect(parsed.pages.map((p) => [p.url, p.status, p.timestamp])).toEqual([
+      ["https://a.com/1", 200, FALLBACK],
+      ["https://a.com/2", undefined, Date.UTC(2024, 1, 1)],
+    ]);
+  });
+
+  it("reads quoted CSV fields with commas, quotes and line breaks", () => {
+    const text = 'URL,Content,Status\r\nhttps://a.com/,"<p>a, ""b""\nc</p>",200\r\n,orphan,\r\n';
+    const parsed = parseImportFile("pages.csv", text, FALLBACK);
+    expect(parsed.invalid).toBe(1);
+    expect(parsed.pages).toEqual([
+      { url: "https://a.com/", content: '<p>a, "b"\nc</p>', error: undefined, status: 200, timestamp: FALLBACK },
+    ]);
+  });
+
+  it("explains a CSV without a content column", () => {
+    const text = "url,domain,status,content_size,timestamp\nhttps://a.com/,a.com,200,10,2024-01-01T00:00:00.000Z\n";
+    expect(() => parseImportFile("pages.csv", text, FALLBACK)).toThrow(/use the JSON export/);
+    expect(() => parseImportFile("pages.csv", "content\nx\n", FALLBACK)).toThrow(/no url column/);
+  });
+
+  it("detects the format from the content when the extension does not tell", () => {
+    expect(parseImportFile("data", "[]", FALLBACK).format).toBe("json");
+    expect(parseImportFile("data", '{"url":"https://a.com/"}', FALLBACK).format).toBe("jsonl");
+    expect(parseImportFile("data", "url,content\n", FALLBACK).format).toBe("csv");
+  });
+});
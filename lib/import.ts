@@ -0,0 +1,140 @@
+import type { CrawledPage } from "./storage";
+
+export type ImportFormat = "json" | "jsonl" | "csv";
+
+export interface ParsedImport {
+  format: ImportFormat;
+  pages: CrawledPage[];
+  /** Rows or lines that could not be read, or had no usable URL. */
+  invalid: number;
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+  }
+}
+
+function detectFormat(fileName: string, text: string): ImportFormat {
+  if (/\.csv$/i.test(fileName)) return "csv";
+  if (/\.jsonl$|\.ndjson$/i.test(fileName)) return "jsonl";
+  const start = text.trimStart();
+  if (start.startsWith("[")) return "json";
+  return start.startsWith("{") ? "jsonl" : "csv";
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) return numeric;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/** A page from an imported record, or null when it has no absolute http(s) URL. */
+function toPage(record: Record<string, unknown>, fallbackTimestamp: number): CrawledPage | null {
+  const url = typeof record.url === "string" ? record.url.trim() : "";
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+  } catch {
+    return null;
+  }
+  const status = Number(record.status);
+  return {
+    url,
+    content: typeof record.content === "string" ? record.content : undefined,
+    error: typeof record.error === "string" && record.error ? record.error : undefined,
+    status: record.status !== undefined && record.status !== "" && Number.isFinite(status) ? status : undefined,
+    timestamp: parseTimestamp(record.timestamp) ?? fallbackTimestamp,
+  };
+}
+
+/** RFC 4180 rows: quoted fields may hold commas, doubled quotes and line breaks. */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+/**
+ * Reads pages from an imported file: our own JSON export, raw Spider JSONL crawl
+ * output, or CSV with `url` and `content` columns. Pages without a timestamp get
+ * `fallbackTimestamp`, usually the file's modification time. Throws
+ * `ImportFormatError` when the file as a whole cannot be read.
+ */
+export function parseImportFile(fileName: string, text: string, fallbackTimestamp = Date.now()): ParsedImport {
+  const format = detectFormat(fileName, text);
+  const result: ParsedImport = { format, pages: [], invalid: 0 };
+  const add = (record: unknown) => {
+    const page = record && typeof record === "object" ? toPage(record as Record<string, unknown>, fallbackTimestamp) : null;
+    if (page) result.pages.push(page);
+    else result.invalid++;
+  };
+
+  switch (format) {
+    case "json": {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (e) {
+        throw new ImportFormatError(`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      if (!Array.isArray(data)) throw new ImportFormatError("Expected a JSON array of pages, as written by the JSON export.");
+      data.forEach(add);
+      break;
+    }
+    case "jsonl":
+      for (const line of text.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          add(JSON.parse(line));
+        } catch {
+          result.invalid++;
+        }
+      }
+      break;
+    case "csv": {
+      const [header, ...rows] = parseCsvRows(text);
+      const columns = (header || []).map((name) => name.trim().toLowerCase());
+      if (!columns.includes("url")) throw new ImportFormatError("The CSV has no url column.");
+      if (!columns.includes("content")) {
+        throw new ImportFormatError("The CSV has no content column. The CSV export only lists pages; use the JSON export to move content.");
+      }
+      for (const row of rows) add(Object.fromEntries(columns.map((name, i) => [name, row[i] ?? ""])));
+      break;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,30 @@
+const DAMPING = 0.85;
+const ITERATIONS = 20;
+
+/**
+ * PageRank over a directed graph given as adjacency lists. Links to nodes outside the
+ * graph and self-links are ignored; pages without outlinks spread their rank evenly.
+ * Scores are scaled so they average 1, which keeps them comparable across graphs of
+ * different sizes.
+ */
+export function computePageRank(graph: Map<string, string[]>): Map<string, number> {
+  const nodes = Array.from(graph.keys());
+  const n = nodes.length;
+  if (!n) return new Map();
+  const position = new Map(nodes.map((node, i) => [node, i]));
+  const outlinks = nodes.map((node) =>
+    Array.from(new Set(graph.get(node)!.filter((target) => target !== node && position.has(target)))).map((target) => position.get(target)!)
+  );
+  let rank = new Float64Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const next = new Float64Array(n);
+    let dangling = 0;
+    outlinks.forEach((targets, i) => {
+      if (!targets.length) dangling += rank[i];
+      else for (const target of targets) next[target] += rank[i] / targets.length;
+    });
+    for (let i = 0; i < n; i++) next[i] = (1 - DAMPING) / n + DAMPING * (next[i] + dangling / n);
+    rank = next;
+  }
+  return new Map(nodes.map((node, i) => [node, rank[i] * n]));
+}
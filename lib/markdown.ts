@@ -0,0 +1,152 @@
+import { BOILERPLATE_TAGS, HIDDEN_TAGS, VOID_TAGS, decodeEntities, isHtml } from "./extract";
+
+// Converted to Markdown with their content dropped.
+const SKIPPED_TAGS = new Set([...Array.from(HIDDEN_TAGS), ...Array.from(BOILERPLATE_TAGS), "head"]);
+const BLOCK_TAGS = new Set([
+  "address", "article", "dd", "div", "dl", "dt", "figcaption", "figure", "main", "p", "section", "table",
+]);
+const EMPHASIS: Record<string, string> = { strong: "**", b: "**", em: "_", i: "_", del: "~~", s: "~~" };
+
+interface List {
+  ordered: boolean;
+  index: number;
+}
+
+/**
+ * Converts page HTML to Markdown: headings, paragraphs, lists, links, images, code,
+ * quotes and simple tables. Navigation, scripts and other chrome are dropped. Links
+ * and images are resolved against `baseUrl`. Markdown content is returned as is.
+ */
+export function htmlToMarkdown(content: string, baseUrl: string): string {
+  if (!isHtml(content)) return content.trim();
+  // Quotes render into their own buffer and are prefixed with "> " when they close.
+  const buffers: string[][] = [[]];
+  const out = () => buffers[buffers.length - 1];
+  const lists: List[] = [];
+  const links: (string | null)[] = [];
+  let skip: { tag: string; depth: number } | null = null;
+  let pre = 0;
+  let row: { cells: number; header: boolean } | null = null;
+  let headerDone = false;
+
+  // Inside list items, paragraphs run on so the item stays one Markdown list entry.
+  const block = () => {
+    const last = out()[out().length - 1];
+    if (!lists.length) out().push("\n\n");
+    else if (last && !/\s$/.test(last)) out().push(" ");
+  };
+  const resolve = (href: string | undefined) => {
+    if (!href) return null;
+    try {
+      const url = new URL(href, baseUrl);
+      return url.protocol === "http:" || url.protocol === "https:" || url.protocol === "mailto:" ? url.href : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const source = content.replace(/<!--[\s\S]*?-->/g, "");
+  for (const [, closing, rawName, attrSource, text] of source.matchAll(/<(\/?)([a-zA-Z][\w:-]*)([^>]*)>|([^<]+)/g)) {
+    if (text !== undefined) {
+      if (skip) continue;
+      const decoded = decodeEntities(text);
+      out().push(pre ? decoded : decoded.replace(/\s+/g, " "));
+      continue;
+    }
+    const tag = rawName.toLowerCase();
+    if (skip) {
+      if (tag === skip.tag && !VOID_TAGS.has(tag)) {
+        skip.depth += closing ? -1 : 1;
+        if (skip.depth === 0) skip = null;
+      }
+      continue;
+    }
+    const attr = (name: string) => attrSource.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"))?.slice(1).find((v) => v !== undefined);
+
+    if (closing) {
+      if (/^h[1-6]$/.test(tag) || BLOCK_TAGS.has(tag)) block();
+      else if (tag in EMPHASIS) out().push(EMPHASIS[tag]);
+      else if (tag === "code" && !pre) out().push("`");
+      else if (tag === "pre") {
+        pre = Math.max(0, pre - 1);
+        out().push("\n```\n\n");
+      } else if (tag === "a") {
+        const href = links.pop();
+        if (href) out().push(`](${href})`);
+      } else if (tag === "ul" || tag === "ol") {
+        lists.pop();
+        if (!lists.length) block();
+      } else if (tag === "blockquote" && buffers.length > 1) {
+        const quoted = buffers.pop()!.join("").trim().replace(/\n{3,}/g, "\n\n");
+        block();
+        out().push(quoted.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n"));
+        block();
+      } else if (tag === "tr" && row) {
+        out().push(" |");
+        if (row.header && !headerDone) {
+          out().push(`\n${"| --- ".repeat(row.cells)}|`);
+          headerDone = true;
+        }
+        row = null;
+      }
+      continue;
+    }
+
+    if (SKIPPED_TAGS.has(tag) || /(?:^|\s)hidden(?=[\s=/]|$)/.test(attrSource.replace(/"[^"]*"|'[^']*'/g, ""))) {
+      if (!VOID_TAGS.has(tag)) skip = { tag, depth: 1 };
+      continue;
+    }
+    if (/^h[1-6]$/.test(tag)) {
+      block();
+      out().push(`${"#".repeat(Number(tag[1]))} `);
+    } else if (BLOCK_TAGS.has(tag)) {
+      block();
+      if (tag === "table") headerDone = false;
+    } else if (tag in EMPHASIS) out().push(EMPHASIS[tag]);
+    else if (tag === "code" && !pre) out().push("`");
+    else if (tag === "pre") {
+      out().push(`\n\n\`\`\`${attr("class")?.match(/language-([\w-]+)/)?.[1] ?? ""}\n`);
+      pre++;
+    } else if (tag === "br") out().push(pre ? "\n" : "  \n");
+    else if (tag === "hr") {
+      block();
+      out().push("---");
+      block();
+    } else if (tag === "a") {
+      const href = resolve(attr("href"));
+      links.push(href);
+      if (href) out().push("[");
+    } else if (tag === "img") {
+      const src = resolve(attr("src"));
+      if (src) out().push(`![${attr("alt") ?? ""}](${src})`);
+    } else if (tag === "ul" || tag === "ol") {
+      if (!lists.length) block();
+      lists.push({ ordered: tag === "ol", index: 0 });
+    } else if (tag === "li") {
+      const list = lists[lists.length - 1];
+      const marker = list?.ordered ? `${++list.index}. ` : "- ";
+      out().push(`\n${"  ".repeat(Math.max(0, lists.length - 1))}${marker}`);
+    } else if (tag === "blockquote") {
+      buffers.push([]);
+    } else if (tag === "tr") {
+      out().push("\n");
+      row = { cells: 0, header: false };
+    } else if ((tag === "td" || tag === "th") && row) {
+      out().push(row.cells ? " | " : "| ");
+      row.cells++;
+      row.header ||= tag === "th";
+    }
+  }
+
+  while (buffers.length > 1) {
+    const rest = buffers.pop()!.join("");
+    out().push(rest);
+  }
+  return out()
+    .join("")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+$/, (spaces) => (spaces === "  " ? spaces : "")))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,253 @@
+import { extractContent } from "./extract";
+import { htmlToMarkdown } from "./markdown";
+
+/*
+ * A stand-in for the Spider API that serves deterministic fake sites, so the app can
+ * run and be tested offline. Every hostname maps to the same generated site on every
+ * run. Sign-in accepts any email and password.
+ */
+
+export interface MockSpiderOptions {
+  /** Path prefix the handler is mounted under, stripped before routing. */
+  basePath?: string;
+  /**
+   * Signs session tokens, so the crawl route can verify them with the same secret. Never
+   * the real Supabase secret: anyone can sign in to the mock.
+   */
+  jwtSecret?: string;
+  sessionTtlSeconds?: number;
+  /** Pause between streamed pages, to make crawls look live. */
+  pageDelayMs?: number;
+}
+
+interface MockPage {
+  path: string;
+  title: string;
+  sections: { heading: string; paragraphs: string[] }[];
+  links: string[];
+  status: number;
+}
+
+const WORDS = (
+  "api guide setup install config deploy cache index query search crawl page site node token session limit stream " +
+  "format request build release version update migrate schema storage worker cluster queue event signal route proxy " +
+  "server client browser network error retry backoff timeout metric report export import archive domain link graph"
+).split(" ");
+const SECTIONS = ["docs", "blog", "guides", "reference"];
+
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+}
+
+/** mulberry32: a small seeded generator, so a hostname always yields the same site. */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function generateSite(hostname: string): Map<string, MockPage> {
+  const next = random(hash(hostname));
+  const pick = <T>(items: T[]) => items[Math.floor(next() * items.length)];
+  const words = (count: number) => Array.from({ length: count }, () => pick(WORDS)).join(" ");
+  const sentence = () => {
+    const text = words(8 + Math.floor(next() * 10));
+    return `${text[0].toUpperCase()}${text.slice(1)}.`;
+  };
+  const titleCase = (text: string) => text.replace(/\b\w/g, (c) => c.toUpperCase());
+  const sections = () => Array.from({ length: 2 + Math.floor(next() * 3) }, () => ({
+    heading: titleCase(words(2 + Math.floor(next() * 2))),
+    paragraphs: Array.from({ length: 1 + Math.floor(next() * 3) }, () => Array.from({ length: 3 }, sentence).join(" ")),
+  }));
+
+  const pages = new Map<string, MockPage>();
+  const add = (path: string, title: string, status = 200) => {
+    const page: MockPage = { path, title, sections: status === 200 ? sections() : [], links: [], status };
+    pages.set(path, page);
+    return page;
+  };
+
+  const home = add("/", `${hostname} home`);
+  const total = 20 + Math.floor(next() * 40);
+  for (const section of SECTIONS) {
+    const index = add(`/${section}/`, titleCase(section));
+    home.links.push(index.path);
+    index.links.push("/");
+  }
+  for (let i = 0; pages.size < total; i++) {
+    const section = pick(SECTIONS);
+    const topic = words(2).replace(/ /g, "-");
+    const path = `/${section}/${topic}-${i}`;
+    const page = add(path, titleCase(topic.replace(/-/g, " ")));
+    pages.get(`/${section}/`)!.links.push(path);
+    page.links.push(`/${section}/`);
+  }
+  const paths = Array.from(pages.keys());
+  for (const page of Array.from(pages.values())) {
+    for (let i = 0; i < 3; i++) page.links.push(pick(paths));
+  }
+  // A failing page and a printable near-copy give the failed-pages and duplicates views something to show.
+  home.links.push("/broken");
+  add("/broken", "Broken", 500);
+  const copied = pages.get(paths[paths.length - 1])!;
+  copied.links.push(`${copied.path}/print`);
+  pages.set(`${copied.path}/print`, { ...copied, path: `${copied.path}/print`, links: [copied.path] });
+  return pages;
+}
+
+function renderHtml(page: MockPage): string {
+  const nav = SECTIONS.map((section) => `<a href="/${section}/">${section}</a>`).join(" ");
+  const body = page.sections
+    .map((section) => {
+      const id = section.heading.toLowerCase().replace(/\s+/g, "-");
+      return `<h2 id="${id}">${section.heading}</h2>\n${section.paragraphs.map((p) => `<p>${p}</p>`).join("\n")}`;
+    })
+    .join("\n");
+  const links = Array.from(new Set(page.links)).map((link) => `<li><a href="${link}">${link}</a></li>`).join("");
+  return `<!doctype html><html lang="en"><head><title>${page.title}</title><meta name="description" content="${page.sections[0]?.paragraphs[0] ?? ""}"></head>` +
+    `<body><nav>${nav}</nav><main><h1>${page.title}</h1>\n${body}\n<h2>Related</h2><ul>${links}</ul></main><footer>Mock site</footer></body></html>`;
+}
+
+const encoder = new TextEncoder();
+
+function base64Url(data: string | Uint8Array): string {
+  const bytes = typeof data === "string" ? encoder.encode(data) : data;
+  let binary = "";
+  bytes.forEach((byte) => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** Default secret for mock session tokens. */
+export const MOCK_JWT_SECRET = "mock-secret";
+
+export function createMockSpider({
+  basePath = "",
+  jwtSecret = MOCK_JWT_SECRET,
+  sessionTtlSeconds = 3600,
+  pageDelayMs = 40,
+}: MockSpiderOptions = {}): (req: Request) => Promise<Response> {
+  const sites = new Map<string, Map<string, MockPage>>();
+  const site = (hostname: string) => {
+    if (!sites.has(hostname)) sites.set(hostname, generateSite(hostname));
+    return sites.get(hostname)!;
+  };
+
+  const createSession = async (email: string) => {
+    const now = Math.floor(Date.now() / 1000);
+    const user = { id: `mock-${hash(email).toString(16)}`, email };
+    const header = base64Url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+    const payload = base64Url(JSON.stringify({ sub: user.id, email, iat: now, exp: now + sessionTtlSeconds }));
+    const key = await crypto.subtle.importKey("raw", encoder.encode(jwtSecret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(`${header}.${payload}`)));
+    return {
+      access_token: `${header}.${payload}.${base64Url(signature)}`,
+      refresh_token: `mock-refresh-${base64Url(email)}`,
+      expires_at: now + sessionTtlSeconds,
+      expires_in: sessionTtlSeconds,
+      token_type: "bearer",
+      user,
+    };
+  };
+
+  // Any key is accepted; session tokens are only checked for expiry.
+  const authorized = (authorization: string | null) => {
+    const token = authorization?.replace(/^Bearer\s+/i, "").trim();
+    if (!token) return false;
+    const payload = token.split(".")[1];
+    if (!payload) return true;
+    try {
+      const { exp } = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+      return typeof exp !== "number" || exp > Date.now() / 1000;
+    } catch {
+      return false;
+    }
+  };
+
+  const crawl = (body: Record<string, unknown>, signal: AbortSignal): Response => {
+    const starts = String(body.url || "").split(",").map((url) => url.trim()).filter(Boolean);
+    const limit = Math.max(1, Number(body.limit) || 1);
+    const format = String(body.return_format || "raw");
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        for (const start of starts) {
+          let origin: URL;
+          try {
+            origin = new URL(start);
+          } catch {
+            controller.enqueue(encoder.encode(`${JSON.stringify({ url: start, content: null, status: 400, error: "Invalid URL" })}\n`));
+            continue;
+          }
+          const pages = site(origin.hostname);
+          const queue = [origin.pathname];
+          const seen = new Set(queue);
+          for (let count = 0; queue.length && count < limit && !signal.aborted; count++) {
+            const path = queue.shift()!;
+            const page = pages.get(path);
+            const url = new URL(path, origin).href;
+            let line: Record<string, unknown>;
+            if (!page) line = { url, content: null, status: 404, error: "Not found" };
+            else if (page.status !== 200) line = { url, content: null, status: page.status, error: "Internal server error" };
+            else {
+              const html = renderHtml(page);
+              const content = format === "markdown" ? htmlToMarkdown(html, url) : format === "text" ? extractContent(html, url).text : html;
+              line = { url, content, status: 200, error: null };
+              for (const link of page.links) {
+                if (!seen.has(link)) {
+                  seen.add(link);
+                  queue.push(link);
+                }
+              }
+            }
+            controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+            if (pageDelayMs) await new Promise((resolve) => setTimeout(resolve, pageDelayMs));
+          }
+        }
+        controller.close();
+      },
+    });
+    return new Response(stream, { headers: { "content-type": "application/jsonl" } });
+  };
+
+  return async (req) => {
+    const path = new URL(req.url).pathname.slice(basePath.length) || "/";
+    if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+    const body = await req.json().catch(() => ({}));
+
+    switch (path) {
+      case "/crawl":
+        if (!authorized(req.headers.get("authorization"))) return json({ error: "Unauthorized" }, 401);
+        return crawl(body, req.signal);
+      case "/data/authenticate": {
+        const provider = ["github", "discord"].find((name) => body[name]);
+        if (provider) {
+          const session = await createSession(`${provider}-user@example.com`);
+          const params = new URLSearchParams(Object.entries(session).filter(([key]) => key !== "user").map(([key, value]) => [key, String(value)]));
+          return json({ data: `${body.redirect_to || "/"}#${params}` });
+        }
+        if (!body.email || !body.password) return json({ error: { message: "Email and password are required" } }, 400);
+        const session = await createSession(String(body.email));
+        return json({ data: { user: session.user, session } });
+      }
+      case "/data/refresh-session": {
+        const email = typeof body.refresh_token === "string" && body.refresh_token.startsWith("mock-refresh-")
+          ? atob(body.refresh_token.slice("mock-refresh-".length).replace(/-/g, "+").replace(/_/g, "/"))
+          : null;
+        if (!email) return json({ error: "Invalid refresh token" }, 401);
+        return json({ data: { session: await createSession(email) } });
+      }
+      case "/data/sign-out":
+        return json({ data: null });
+      default:
+        return json({ error: "Not found" }, 404);
+    }
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { matchesQuery, parseQuery, positiveTerms, QueryParseError } from "./query";
+import type { StoredPage } from "./storage";
+
+const term = (value: string) => ({ type: "term", value });
+
+function parseError(input: string): QueryParseError {
+  try {
+    parseQuery(input);
+  } catch (e) {
+    if (e instanceof QueryParseError) return e;
+    throw e;
+  }
+  throw new Error(`"${input}" parsed`);
+}
+
+describe("parseQuery", () => {
+  it("binds adjacent terms tighter than OR", () => {
+    expect(parseQuery("a b OR c")).toEqual({ type: "or", children: [{ type: "and", children: [term("a"), term("b")] }, term("c")] });
+    expect(parseQuery("a (b OR c)")).toEqual({ type: "and", children: [term("a"), { type: "or", children: [term("b"), term("c")] }] });
+  });
+
+  it("applies - to the next term, phrase, filter or group only", () => {
+    expect(parseQuery("-a b")).toEqual({ type: "and", children: [{ type: "not", child: term("a") }, term("b")] });
+    expect(parseQuery('-"x y" OR -site:a.com')).toEqual({
+      type: "or",
+      children: [{ type: "not", child: { type: "phrase", value: "x y" } }, { type: "not", child: { type: "field", field: "site", value: "a.com" } }],
+    });
+    expect(parseQuery("-(a OR b)")).toEqual({ type: "not", child: { type: "or", children: [term("a"), term("b")] } });
+    expect(parseQuery("co-op")).toEqual(term("co-op"));
+  });
+
+  it("reads field filters, quoted values and dates", () => {
+    expect(parseQuery('Title:"Getting Started" status:4xx url:/docs')).toEqual({
+      type: "and",
+      children: [
+        { type: "field", field: "title", value: "getting started" },
+        { type: "field", field: "status", value: "4xx" },
+        { type: "field", field: "url", value: "/docs" },
+      ],
+    });
+    expect(parseQuery("after:2024-01-31")).toEqual({ type: "date", op: "after", value: new Date(2024, 0, 31).getTime() });
+    expect(parseQuery("lowercase or")).toEqual({ type: "and", children: [term("lowercase"), term("or")] });
+  });
+
+  it("reports malformed queries with their position", () => {
+    expect(parseError('a "open').position).toBe(2);
+    expect(parseError("a OR").message).toBe("Expected a term after OR");
+    expect(parseError("OR a").message).toBe("OR must be placed between two terms");
+    expect(parseError("a - b").message).toBe("Nothing to exclude after '-'");
+    expect(parseError("(a b").message).toBe("Missing closing parenthesis");
+    expect(parseError("a)").message).toBe("Unexpected ')'");
+    expect(parseError("status:teapot").message).toMatch(/Invalid status/);
+    expect(parseError("before:someday").message).toMatch(/Invalid date/);
+    expect(parseError("site: a").position).toBe(0);
+    expect(parseError("  ").message).toBe("Expected a search term");
+  });
+});
+
+describe("positiveTerms", () => {
+  it("collects terms, phrases and title filters but not exclusions", () => {
+    expect(positiveTerms(parseQuery('a "b c" -d title:e site:f.com'))).toEqual(["a", "b c", "e"]);
+  });
+});
+
+describe("matchesQuery", () => {
+  const page = {
+    url: "https://docs.a.com/guide/install",
+    domain: "docs.a.com",
+    status: 404,
+    timestamp: new Date(2024, 5, 1).getTime(),
+    contentSize: 0,
+    content: "<html><head><title>Install guide</title></head><body><p>Run the crawler from the command line.</p></body></html>",
+  } satisfies StoredPage;
+  const matches = (query: string) => matchesQuery(parseQuery(query), page);
+
+  it("evaluates phrases, exclusions, OR and filters", () => {
+    expect(matches('"command line" -windows')).toBe(true);
+    expect(matches('"line command"')).toBe(false);
+    expect(matches("crawler -guide")).toBe(false);
+    expect(matches("windows OR crawler")).toBe(true);
+    expect(matches("site:a.com status:4xx title:install url:/guide/")).toBe(true);
+    expect(matches("site:docs.b.com")).toBe(false);
+    expect(matches("status:200")).toBe(false);
+    expect(matches("after:2024-06-01 before:2024-06-02")).toBe(true);
+  });
+});
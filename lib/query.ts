@@ -0,0 +1,247 @@
+import { normalizeText, tokenize } from "./search-index";
+import { pageText, pageTitle } from "./extract";
+import type { StoredPage } from "./storage";
+
+export type QueryField = "site" | "status" | "title" | "url";
+
+export type QueryNode =
+  | { type: "term"; value: string }
+  | { type: "phrase"; value: string }
+  | { type: "field"; field: QueryField; value: string }
+  | { type: "date"; op: "before" | "after"; value: number }
+  | { type: "not"; child: QueryNode }
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] };
+
+export class QueryParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = "QueryParseError";
+  }
+}
+
+type Token =
+  | { kind: "word"; value: string; pos: number }
+  | { kind: "phrase"; value: string; pos: number }
+  | { kind: "field"; field: QueryField | "before" | "after"; value: string; pos: number }
+  | { kind: "not" | "or" | "lparen" | "rparen"; pos: number };
+
+const FIELDS = new Set(["site", "status", "title", "url", "before", "after"]);
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) throw new QueryParseError("Unterminated quote", start);
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === "(") { tokens.push({ kind: "lparen", pos: i++ }); continue; }
+    if (ch === ")") { tokens.push({ kind: "rparen", pos: i++ }); continue; }
+    if (ch === "-" && (tokens.length === 0 || /[\s(]/.test(input[i - 1]))) {
+      if (i + 1 >= input.length || /[\s)]/.test(input[i + 1])) {
+        throw new QueryParseError("Nothing to exclude after '-'", i);
+      }
+      tokens.push({ kind: "not", pos: i++ });
+      continue;
+    }
+    if (ch === '"') {
+      const { value, end } = readQuoted(input, i);
+      if (value.trim()) tokens.push({ kind: "phrase", value, pos: i });
+      i = end;
+      continue;
+    }
+    const start = i;
+    while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+    const word = input.slice(start, i);
+    const colon = word.indexOf(":");
+    const field = colon > 0 ? word.slice(0, colon).toLowerCase() : "";
+    if (FIELDS.has(field)) {
+      let value = word.slice(colon + 1);
+      if (!value && input[i] === '"') {
+        const quoted = readQuoted(input, i);
+        value = quoted.value;
+        i = quoted.end;
+      }
+      if (!value.trim()) throw new QueryParseError(`Missing value for "${field}:"`, start);
+      tokens.push({ kind: "field", field: field as QueryField | "before" | "after", value, pos: start });
+    } else if (word === "OR") {
+      tokens.push({ kind: "or", pos: start });
+    } else {
+      tokens.push({ kind: "word", value: word, pos: start });
+    }
+  }
+  return tokens;
+}
+
+function parseDate(value: string, pos: number): number {
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00`) : Date.parse(value);
+  if (Number.isNaN(time)) throw new QueryParseError(`Invalid date "${value}" (use YYYY-MM-DD)`, pos);
+  return time;
+}
+
+function fieldNode(token: Extract<Token, { kind: "field" }>): QueryNode {
+  const value = token.value.trim();
+  if (token.field === "before" || token.field === "after") {
+    return { type: "date", op: token.field, value: parseDate(value, token.pos) };
+  }
+  if (token.field === "status" && !/^\d{3}$|^\dxx$/i.test(value)) {
+    throw new QueryParseError(`Invalid status "${value}" (use e.g. 404 or 4xx)`, token.pos);
+  }
+  return { type: "field", field: token.field, value: value.toLowerCase() };
+}
+
+/** Parses a search box query into an AST. Throws `QueryParseError` on malformed input. */
+export function parseQuery(input: string): QueryNode {
+  const tokens = lex(input);
+  let i = 0;
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (tokens[i]?.kind === "or") {
+      const or = tokens[i++];
+      if (!tokens[i] || tokens[i].kind === "or" || tokens[i].kind === "rparen") {
+        throw new QueryParseError("Expected a term after OR", or.pos);
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    while (i < tokens.length && tokens[i].kind !== "or" && tokens[i].kind !== "rparen") {
+      children.push(parseUnary());
+    }
+    if (!children.length) {
+      const token = tokens[i];
+      if (token?.kind === "or") throw new QueryParseError("OR must be placed between two terms", token.pos);
+      throw new QueryParseError("Expected a search term", token?.pos ?? input.length);
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    if (tokens[i].kind === "not") {
+      i++;
+      return { type: "not", child: parsePrimary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[i++];
+    if (!token) throw new QueryParseError("Expected a search term", input.length);
+    switch (token.kind) {
+      case "word": return { type: "term", value: token.value.toLowerCase() };
+      case "phrase": return { type: "phrase", value: token.value.toLowerCase() };
+      case "field": return fieldNode(token);
+      case "lparen": {
+        const node = parseOr();
+        if (tokens[i]?.kind !== "rparen") throw new QueryParseError("Missing closing parenthesis", token.pos);
+        i++;
+        return node;
+      }
+      default: throw new QueryParseError(`Unexpected "${input[token.pos]}"`, token.pos);
+    }
+  };
+
+  if (!tokens.length) throw new QueryParseError("Expected a search term", 0);
+  const root = parseOr();
+  if (i < tokens.length) throw new QueryParseError("Unexpected ')'", tokens[i].pos);
+  return root;
+}
+
+/** Text the query can match: positive terms, phrases and title filters, ignoring exclusions. */
+export function positiveTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case "term":
+    case "phrase": return [node.value];
+    case "field": return node.field === "title" ? [node.value] : [];
+    case "and":
+    case "or": return node.children.flatMap(positiveTerms);
+    default: return [];
+  }
+}
+
+/** Whether every page the query matches must contain at least one of its positive terms. */
+export function requiresText(node: QueryNode): boolean {
+  switch (node.type) {
+    case "term":
+    case "phrase": return true;
+    case "field": return node.field === "title";
+    case "and": return node.children.some(requiresText);
+    case "or": return node.children.every(requiresText);
+    default: return false;
+  }
+}
+
+/** Whether the query filters on `status:` anywhere, i.e. asks for failed pages explicitly. */
+export function mentionsStatus(node: QueryNode): boolean {
+  switch (node.type) {
+    case "field": return node.field === "status";
+    case "not": return mentionsStatus(node.child);
+    case "and":
+    case "or": return node.children.some(mentionsStatus);
+    default: return false;
+  }
+}
+
+/** Fuzzy alternatives per stemmed query term, as found in the indexed vocabulary. */
+export type TermExpansions = Map<string, string[]>;
+
+interface PageText {
+  body: string;
+  title: string;
+  bodyTerms: Set<string>;
+  titleTerms: Set<string>;
+}
+
+function containsWords(haystack: string, needle: string): boolean {
+  const normalized = normalizeText(needle);
+  return !normalized || haystack.includes(` ${normalized} `);
+}
+
+/** Matches by stem, so "configuring" finds "configured"; stop words fall back to a word match. */
+function containsTerms(text: string, sets: Set<string>[], value: string, expansions?: TermExpansions): boolean {
+  const terms = tokenize(value);
+  if (!terms.length) return containsWords(text, value);
+  const has = (term: string) => sets.some((set) => set.has(term));
+  return terms.every((term) => has(term) || (expansions?.get(term) || []).some(has));
+}
+
+function evaluate(node: QueryNode, page: StoredPage, text: PageText, expansions?: TermExpansions): boolean {
+  switch (node.type) {
+    case "term": return containsTerms(`${text.body}${text.title}`, [text.bodyTerms, text.titleTerms], node.value, expansions);
+    case "phrase": return containsWords(text.body, node.value) || containsWords(text.title, node.value);
+    case "field":
+      switch (node.field) {
+        case "site": return page.domain === node.value || page.domain.endsWith(`.${node.value}`);
+        case "status": return page.status != null && (/xx$/.test(node.value)
+          ? String(page.status)[0] === node.value[0]
+          : page.status === Number(node.value));
+        case "title": return containsTerms(text.title, [text.titleTerms], node.value, expansions);
+        case "url": return page.url.toLowerCase().includes(node.value);
+      }
+    case "date": return node.op === "before" ? page.timestamp < node.value : page.timestamp >= node.value;
+    case "not": return !evaluate(node.child, page, text, expansions);
+    case "and": return node.children.every((child) => evaluate(child, page, text, expansions));
+    case "or": return node.children.some((child) => evaluate(child, page, text, expansions));
+  }
+}
+
+export function matchesQuery(node: QueryNode, page: StoredPage, expansions?: TermExpansions): boolean {
+  const body = pageText(page);
+  const title = pageTitle(page);
+  const text = {
+    body: ` ${normalizeText(body)} `,
+    title: ` ${normalizeText(title)} `,
+    bodyTerms: new Set(tokenize(body)),
+    titleTerms: new Set(tokenize(title)),
+  };
+  return evaluate(node, page, text, expansions);
+}
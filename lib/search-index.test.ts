@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { analyzeDocument, editDistance, EMPTY_STATS, fuzzyMatches, scoreBM25, toPosting, tokenize, type AnalyzedDocument, type IndexStats, type Posting } from "./search-index";
+
+/** Index stats and the postings of `terms` for a set of documents, as the index store holds them. */
+function buildIndex(docs: AnalyzedDocument[], terms: string[]): [Map<string, Posting[]>, IndexStats] {
+  const stats = docs.reduce((s, d) => ({ docCount: s.docCount + 1, totalLength: s.totalLength + d.length, totalTitleLength: s.totalTitleLength + d.titleLength }), EMPTY_STATS);
+  const postings = new Map(terms.map((term) => [term, docs.flatMap((d) => toPosting(d, term) ?? [])]));
+  return [postings, stats];
+}
+
+function rank(docs: AnalyzedDocument[], terms: string[]): string[] {
+  const scores = scoreBM25(...buildIndex(docs, terms));
+  return Array.from(scores).sort((a, b) => b[1] - a[1]).map(([url]) => url);
+}
+
+const filler = "lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor";
+
+describe("tokenize", () => {
+  it("lowercases and drops stop words and single characters", () => {
+    expect(tokenize("The Quick brown fox, a B-52 and IT")).toEqual(["quick", "brown", "fox", "52"]);
+  });
+});
+
+describe("scoreBM25", () => {
+  it("ranks documents with more occurrences of a term higher", () => {
+    const docs = [
+      analyzeDocument("once", "", `crawler ${filler}`),
+      analyzeDocument("thrice", "", `crawler crawler crawler ${filler}`),
+      analyzeDocument("none", "", `${filler}`),
+    ];
+    expect(rank(docs, ["crawler"])).toEqual(["thrice", "once"]);
+  });
+
+  it("favours shorter documents for the same term frequency", () => {
+    const docs = [
+      analyzeDocument("long", "", `crawler ${filler} ${filler} ${filler}`),
+      analyzeDocument("short", "", `crawler ${filler}`),
+    ];
+    expect(rank(docs, ["crawler"])).toEqual(["short", "long"]);
+  });
+
+  it("weights rare terms above common ones", () => {
+    const docs = [
+      analyzeDocument("common", "", `index index ${filler}`),
+      analyzeDocument("rare", "", `spider ${filler}`),
+      analyzeDocument("other", "", `index ${filler}`),
+    ];
+    expect(rank(docs, ["index", "spider"])[0]).toBe("rare");
+  });
+
+  it("boosts matches in the title", () => {
+    const docs = [
+      analyzeDocument("body", "Guide", `crawler ${filler}`),
+      analyzeDocument("title", "Crawler", `guide ${filler}`),
+    ];
+    expect(rank(docs, ["crawler"])).toEqual(["title", "body"]);
+  });
+
+  it("scales a term's contribution by its weight", () => {
+    const docs = [analyzeDocument("exact", "", `crawler ${filler}`), analyzeDocument("other", "", `${filler}`)];
+    const [postings, stats] = buildIndex(docs, ["crawler"]);
+    const scores = scoreBM25(postings, stats, new Map([["crawler", 0.5]]));
+    expect(scores.get("exact")).toBeCloseTo(scoreBM25(postings, stats).get("exact")! / 2);
+  });
+
+  it("scores nothing on an empty index", () => {
+    expect(scoreBM25(new Map([["crawler", []]]), EMPTY_STATS).size).toBe(0);
+  });
+});
+
+describe("editDistance", () => {
+  it("counts insertions, deletions, substitutions and adjacent transpositions", () => {
+    expect(editDistance("crawler", "crawler", 2)).toBe(0);
+    expect(editDistance("crawler", "crawer", 2)).toBe(1);
+    expect(editDistance("crawler", "carwler", 2)).toBe(1);
+    expect(editDistance("crawler", "brawlers", 2)).toBe(2);
+  });
+
+  it("stops at max + 1", () => {
+    expect(editDistance("crawler", "spider", 2)).toBe(3);
+  });
+});
+
+describe("fuzzyMatches", () => {
+  it("allows more edits for longer terms, closest first", () => {
+    expect(fuzzyMatches("indx", ["index", "inbox", "indexes"])).toEqual([{ term: "index", distance: 1 }]);
+    expect(fuzzyMatches("schedulr", ["schedul", "schedules", "shuffle"])).toEqual([
+      { term: "schedul", distance: 1 },
+      { term: "schedules", distance: 2 },
+    ]);
+  });
+
+  it("does not correct short terms", () => {
+    expect(fuzzyMatches("api", ["apis", "app"])).toEqual([]);
+  });
+});
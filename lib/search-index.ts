@@ -0,0 +1,183 @@
+import { stem } from "./stemmer";
+
+// BM25F parameters. Title matches count TITLE_WEIGHT times a body match.
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_B = 0.5;
+const TITLE_WEIGHT = 3;
+// Fuzzy expansions of a misspelled term score at this fraction of an exact match.
+export const FUZZY_WEIGHT = 0.6;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "was", "with",
+]);
+
+export interface Posting {
+  url: string;
+  tf: number;
+  titleTf: number;
+  length: number;
+  titleLength: number;
+}
+
+export interface IndexStats {
+  docCount: number;
+  totalLength: number;
+  totalTitleLength: number;
+}
+
+export interface AnalyzedDocument {
+  url: string;
+  length: number;
+  titleLength: number;
+  terms: Map<string, { tf: number; titleTf: number; word: string }>;
+}
+
+export const EMPTY_STATS: IndexStats = { docCount: 0, totalLength: 0, totalTitleLength: 0 };
+
+export function stripHtml(content: string): string {
+  return content
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function extractTitle(content: string): string | null {
+  const match = content.match(/<title[^>]*>([^<]*)<\/title>/i) || content.match(/^#\s+(.+)/m);
+  return match?.[1]?.trim() || null;
+}
+
+/**
+ * Absolute http(s) URLs linked from `<a href>` or Markdown `[text](url)`, resolved against
+ * the page URL, without fragments and deduplicated.
+ */
+export function extractLinks(content: string, baseUrl: string): string[] {
+  const links = new Set<string>();
+  const pattern = /<a\s[^>]*href\s*=\s*["']([^"']+)["']|\]\(([^)\s]+)\)/gi;
+  for (const match of content.matchAll(pattern)) {
+    try {
+      const link = new URL(match[1] ?? match[2], baseUrl);
+      if (link.protocol !== "http:" && link.protocol !== "https:") continue;
+      link.hash = "";
+      links.add(link.href);
+    } catch {
+      // Not a resolvable URL, e.g. a template placeholder.
+    }
+  }
+  return Array.from(links);
+}
+
+/** Lowercases and collapses every run of non-word characters to a single space. */
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\u00c0-\u024f]+/g, " ").trim();
+}
+
+/** Lowercased words worth indexing, before stemming. */
+export function words(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || [];
+  return tokens.filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+export function tokenize(text: string): string[] {
+  return words(text).map(stem);
+}
+
+/** Indexes a page from its extracted title and plain body text. */
+export function analyzeDocument(url: string, titleText: string, bodyText: string): AnalyzedDocument {
+  const body = words(bodyText);
+  const title = words(titleText);
+  const terms = new Map<string, { tf: number; titleTf: number; word: string }>();
+  for (const word of body) {
+    const term = stem(word);
+    const entry = terms.get(term) || { tf: 0, titleTf: 0, word };
+    entry.tf++;
+    terms.set(term, entry);
+  }
+  for (const word of title) {
+    const term = stem(word);
+    const entry = terms.get(term) || { tf: 0, titleTf: 0, word };
+    entry.titleTf++;
+    terms.set(term, entry);
+  }
+  return { url, length: body.length, titleLength: title.length, terms };
+}
+
+export function toPosting(doc: AnalyzedDocument, term: string): Posting | null {
+  const entry = doc.terms.get(term);
+  if (!entry) return null;
+  return { url: doc.url, tf: entry.tf, titleTf: entry.titleTf, length: doc.length, titleLength: doc.titleLength };
+}
+
+/** How many edits a term of this length may be away from a vocabulary term and still match it. */
+export function maxEdits(term: string): number {
+  if (term.length < 4) return 0;
+  return term.length < 7 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions).
+ * Gives up early and returns `max + 1` once the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prevPrev[j - 2] + 1);
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Vocabulary terms within `maxEdits(term)` of `term`, closest first. */
+export function fuzzyMatches(term: string, vocabulary: string[], limit = 3): { term: string; distance: number }[] {
+  const max = maxEdits(term);
+  if (!max) return [];
+  const matches: { term: string; distance: number }[] = [];
+  for (const candidate of vocabulary) {
+    if (candidate === term || Math.abs(candidate.length - term.length) > max) continue;
+    const distance = editDistance(term, candidate, max);
+    if (distance <= max) matches.push({ term: candidate, distance });
+  }
+  return matches.sort((a, b) => a.distance - b.distance).slice(0, limit);
+}
+
+/**
+ * Scores every document that appears in at least one of the given postings lists.
+ * `weights` scales a term's contribution, e.g. to rank fuzzy expansions below exact matches.
+ */
+export function scoreBM25(
+  postingsByTerm: Map<string, Posting[]>,
+  stats: IndexStats,
+  weights?: Map<string, number>
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  if (!stats.docCount) return scores;
+  const avgLength = stats.totalLength / stats.docCount || 1;
+  const avgTitleLength = stats.totalTitleLength / stats.docCount || 1;
+  for (const [term, postings] of Array.from(postingsByTerm)) {
+    const weight = weights?.get(term) ?? 1;
+    const df = postings.length;
+    if (!df) continue;
+    const idf = Math.log(1 + (stats.docCount - df + 0.5) / (df + 0.5));
+    for (const p of postings) {
+      const body = p.tf / (1 - B + B * (p.length / avgLength));
+      const title = p.titleTf / (1 - TITLE_B + TITLE_B * (p.titleLength / avgTitleLength));
+      const tf = body + TITLE_WEIGHT * title;
+      scores.set(p.url, (scores.get(p.url) || 0) + weight * idf * (tf * (K1 + 1)) / (tf + K1));
+    }
+  }
+  return scores;
+}
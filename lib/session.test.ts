@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSessionManager } from "./session";
+import { createSpiderClient, SpiderApiError, SpiderAuthError, type SpiderClient, type SpiderSession } from "./spider-client";
+
+const NOW = Date.UTC(2024, 0, 1) / 1000;
+
+function session(token: string, expiresIn = 3600): SpiderSession {
+  return { access_token: token, refresh_token: `refresh-${token}`, expires_at: NOW + expiresIn, user: { id: "user-1" } };
+}
+
+function fakeClient(refreshSession: SpiderClient["refreshSession"]): SpiderClient {
+  return { refreshSession, signOut: vi.fn(async () => {}) } as unknown as SpiderClient;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW * 1000 });
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  });
+  vi.stubGlobal("window", { addEventListener: vi.fn() });
+  vi.stubGlobal("document", { cookie: "", visibilityState: "visible", addEventListener: vi.fn() });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("createSessionManager", () => {
+  it("refreshes a minute before the session expires", async () => {
+    const refreshSession = vi.fn(async () => session("second"));
+    const sessions = createSessionManager(fakeClient(refreshSession));
+    sessions.signIn(session("first", 600));
+
+    await vi.advanceTimersByTimeAsync(539_000);
+    expect(refreshSession).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(sessions.getState()).toEqual({ session: session("second"), expired: false });
+    expect(JSON.parse(localStorage.getItem("spider_session")!).access_token).toBe("second");
+  });
+
+  it("shares one refresh between concurrent callers", async () => {
+    const refreshSession = vi.fn(async () => session("second"));
+    const sessions = createSessionManager(fakeClient(refreshSession));
+    sessions.signIn(session("first"));
+    const [a, b] = await Promise.all([sessions.refresh(), sessions.refresh()]);
+    expect(a).toBe(b);
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a request once with a refreshed token after a 401", async () => {
+    const sessions = createSessionManager(fakeClient(async () => session("second")));
+    sessions.signIn(session("first"));
+    const request = vi.fn(async (token: string) => {
+      if (token === "first") throw new SpiderAuthError("Unauthorized", 401);
+      return token;
+    });
+    await expect(sessions.withSession(request)).resolves.toBe("second");
+    expect(request.mock.calls).toEqual([["first"], ["second"]]);
+  });
+
+  it("marks the session expired when the refresh is refused", async () => {
+    const sessions = createSessionManager(fakeClient(async () => { throw new SpiderAuthError("Invalid refresh token", 401); }));
+    sessions.signIn(session("first"));
+    await expect(sessions.withSession(async () => { throw new SpiderAuthError("Unauthorized", 401); })).rejects.toThrow("Invalid refresh token");
+    expect(sessions.getState()).toEqual({ session: null, expired: true });
+    await expect(sessions.withSession(async () => "never")).rejects.toThrow(/session expired/);
+  });
+
+  it("keeps the session and tries again later when the server cannot be reached", async () => {
+    const refreshSession = vi.fn()
+      .mockRejectedValueOnce(new SpiderApiError("Bad gateway", 502))
+      .mockResolvedValueOnce(session("second"));
+    const sessions = createSessionManager(fakeClient(refreshSession));
+    sessions.signIn(session("first"));
+    await expect(sessions.refresh()).rejects.toThrow("Bad gateway");
+    expect(sessions.getState().session?.access_token).toBe("first");
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(sessions.getState().session?.access_token).toBe("second");
+  });
+});
+
+describe("refreshSession", () => {
+  it("keeps fields the refresh response leaves out", async () => {
+    const fetch = vi.fn(async () => Response.json({ data: { session: { access_token: "second", refresh_token: "refresh-second", expires_at: NOW + 7200 } } }));
+    const client = createSpiderClient({ baseUrl: "https://api.test", fetch });
+    await expect(client.refreshSession(session("first"))).resolves.toEqual({
+      access_token: "second",
+      refresh_token: "refresh-second",
+      expires_at: NOW + 7200,
+      user: { id: "user-1" },
+    });
+  });
+});
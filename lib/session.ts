@@ -0,0 +1,177 @@
+import cookie from "cookie";
+import { SpiderApiError, SpiderAuthError, type SpiderClient, type SpiderSession } from "./spider-client";
+
+/*
+ * Keeps the signed-in session alive: refreshes it shortly before it expires, retries a
+ * request once after refreshing when it is rejected with 401, and follows sign-ins,
+ * refreshes and sign-outs made in other tabs through localStorage.
+ */
+
+const STORAGE_KEY = "spider_session";
+const REFRESH_LOCK = "spider-session-refresh";
+/** Refresh this long before `expires_at`. */
+const REFRESH_MARGIN_SECONDS = 60;
+/** Wait before trying again when a refresh could not reach the server. */
+const RETRY_DELAY_MS = 30_000;
+// setTimeout fires immediately for delays that do not fit in 32 bits.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+enum CookieKeys {
+  ACCESS_TOKEN = "spider_access_token",
+  REFRESH_TOKEN = "spider_refresh_token",
+}
+
+const COOKIE_OPTS = { sameSite: "lax" as const, secure: true, path: "/" };
+
+export interface SessionState {
+  session: SpiderSession | null;
+  /** The session ran out and could not be refreshed, so the user has to sign in again. */
+  expired: boolean;
+}
+
+export interface SessionManager {
+  getState: () => SessionState;
+  subscribe: (listener: (state: SessionState) => void) => () => void;
+  signIn: (session: SpiderSession) => void;
+  signOut: () => Promise<void>;
+  /** Refreshes now, sharing one request between concurrent callers. Null without a session. */
+  refresh: () => Promise<SpiderSession | null>;
+  /**
+   * Runs `request` with the current access token. A 401 refreshes the session and
+   * retries once; when the refresh is refused the session is marked expired.
+   */
+  withSession: <T>(request: (accessToken: string) => Promise<T>) => Promise<T>;
+}
+
+function parseSession(raw: string | null): SpiderSession | null {
+  try {
+    const session = raw ? JSON.parse(raw) : null;
+    return session?.access_token ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeSession(session: SpiderSession | null) {
+  if (session) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    document.cookie = cookie.serialize(CookieKeys.ACCESS_TOKEN, session.access_token || "", COOKIE_OPTS);
+    document.cookie = cookie.serialize(CookieKeys.REFRESH_TOKEN, session.refresh_token || "", COOKIE_OPTS);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+    const expire = new Date(0);
+    document.cookie = cookie.serialize(CookieKeys.ACCESS_TOKEN, "", { ...COOKIE_OPTS, expires: expire });
+    document.cookie = cookie.serialize(CookieKeys.REFRESH_TOKEN, "", { ...COOKIE_OPTS, expires: expire });
+  }
+}
+
+function expiresSoon(session: SpiderSession): boolean {
+  if (!session.expires_at) return false;
+  return Date.now() / 1000 >= session.expires_at - REFRESH_MARGIN_SECONDS;
+}
+
+/** Runs `fn` while holding the refresh lock, so only one tab refreshes at a time. */
+async function withRefreshLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator === "undefined" || !navigator.locks) return fn();
+  return await navigator.locks.request(REFRESH_LOCK, fn);
+}
+
+/** Creates the browser's session manager, starting from the session saved in localStorage. */
+export function createSessionManager(client: SpiderClient): SessionManager {
+  let state: SessionState = { session: parseSession(localStorage.getItem(STORAGE_KEY)), expired: false };
+  const listeners = new Set<(state: SessionState) => void>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let refreshing: Promise<SpiderSession | null> | null = null;
+
+  const schedule = (delay?: number) => {
+    clearTimeout(timer);
+    const session = state.session;
+    if (!session?.expires_at) return;
+    delay ??= (session.expires_at - REFRESH_MARGIN_SECONDS) * 1000 - Date.now();
+    timer = setTimeout(() => { refresh().catch(console.error); }, Math.min(Math.max(0, delay), MAX_TIMER_MS));
+  };
+
+  const setState = (next: SessionState) => {
+    state = next;
+    schedule();
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const runRefresh = (current: SpiderSession) => withRefreshLock(async () => {
+    // Another tab may have refreshed while this one waited for the lock.
+    const stored = parseSession(localStorage.getItem(STORAGE_KEY));
+    if (stored && stored.access_token !== current.access_token && !expiresSoon(stored)) {
+      setState({ session: stored, expired: false });
+      return stored;
+    }
+    try {
+      const fresh = await client.refreshSession(current);
+      storeSession(fresh);
+      setState({ session: fresh, expired: false });
+      return fresh;
+    } catch (e) {
+      if (e instanceof SpiderApiError && e.status < 500 && e.status !== 429) {
+        storeSession(null);
+        setState({ session: null, expired: true });
+      } else {
+        // The server could not be reached; keep the session and try again shortly.
+        schedule(RETRY_DELAY_MS);
+      }
+      throw e;
+    }
+  });
+
+  const refresh = () => {
+    const current = state.session;
+    if (!current) return Promise.resolve(null);
+    refreshing ??= runRefresh(current).finally(() => { refreshing = null; });
+    return refreshing;
+  };
+
+  window.addEventListener("storage", (event) => {
+    if (event.key !== STORAGE_KEY) return;
+    const next = parseSession(event.newValue);
+    if (next) setState({ session: next, expired: false });
+    else if (state.session) setState({ session: null, expired: false });
+  });
+  // Timers are throttled in background tabs, so catch up when the tab is shown again.
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible" && state.session && expiresSoon(state.session)) refresh().catch(console.error);
+  });
+
+  // Sessions saved without an expiry are refreshed once to learn it.
+  if (state.session && (!state.session.expires_at || expiresSoon(state.session))) refresh().catch(console.error);
+  else schedule();
+
+  return {
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    signIn(session) {
+      storeSession(session);
+      setState({ session, expired: false });
+    },
+    async signOut() {
+      const session = state.session;
+      storeSession(null);
+      setState({ session: null, expired: false });
+      if (session) await client.signOut(session.access_token).catch(() => {});
+    },
+    refresh,
+    async withSession(request) {
+      let session = state.session;
+      if (!session) throw new SpiderAuthError(state.expired ? "Your session expired. Sign in again." : "Sign in to continue.", 401);
+      if (expiresSoon(session)) session = (await refresh()) ?? session;
+      try {
+        return await request(session.access_token);
+      } catch (e) {
+        if (!(e instanceof SpiderAuthError) || e.status !== 401) throw e;
+        const fresh = await refresh();
+        if (!fresh) throw e;
+        return request(fresh.access_token);
+      }
+    },
+  };
+}
@@ -0,0 +1,368 @@
+/*
+ * Typed client for the Spider API endpoints the app uses: crawling and the session
+ * endpoints under /data. Failed responses become the error classes below, and
+ * failed requests are retried with exponential backoff: idempotent ones after network
+ * errors, 429 and 5xx, the rest (starting a crawl, registering) only after 429, when
+ * Spider turned them away before doing anything.
+ */
+
+export interface SpiderUser {
+  id?: string;
+  email?: string;
+  app_metadata?: Record<string, unknown>;
+}
+
+export interface SpiderSession {
+  access_token: string;
+  refresh_token: string;
+  /** Unix time in seconds. */
+  expires_at?: number;
+  expires_in?: number;
+  token_type?: string;
+  user?: SpiderUser;
+}
+
+/** Body of /data/authenticate and /data/refresh-session. */
+export interface SessionResponse {
+  data?: { session?: unknown; user?: unknown } | null;
+  session?: unknown;
+  user?: unknown;
+  error?: unknown;
+}
+
+/** Body of /data/authenticate for an OAuth provider: the provider's sign-in page. */
+export interface OAuthUrlResponse {
+  data?: string | null;
+  error?: unknown;
+}
+
+/** Body of /data/sign-out. */
+export interface SignOutResponse {
+  data?: null;
+  error?: unknown;
+}
+
+export interface Credentials {
+  email: string;
+  password: string;
+  registering?: boolean;
+}
+
+export type OAuthProvider = "github" | "discord";
+
+export interface CrawlParams {
+  urls: string[];
+  limit: number;
+  return_format: string;
+  request: string;
+  full_resources?: boolean;
+}
+
+/** One line of a Spider crawl stream. */
+export interface CrawlResult {
+  url: string;
+  content?: string | null;
+  status?: number | null;
+  error?: string | null;
+}
+
+export interface CrawlOptions {
+  /** Session token or API key, sent as-is in the `authorization` header. */
+  authorization: string;
+  /** The user's own Spider key, for the app's crawl route to use instead of the team key. */
+  apiKey?: string;
+  signal?: AbortSignal;
+}
+
+export interface SpiderClientOptions {
+  baseUrl: string;
+  /** Replaces the global fetch, e.g. with the mock server's handler. */
+  fetch?: (input: string, init: RequestInit) => Promise<Response>;
+  /** Attempts after the first for retryable failures. */
+  retries?: number;
+  retryDelayMs?: number;
+  /** Longest wait between attempts; a longer Retry-After is not retried. */
+  maxRetryDelayMs?: number;
+}
+
+/** A response Spider (or the crawl route) answered with an error status. */
+export class SpiderApiError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "SpiderApiError";
+  }
+}
+
+/** 401/403, or an error in an otherwise successful auth response. */
+export class SpiderAuthError extends SpiderApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "SpiderAuthError";
+  }
+}
+
+/** 402: the account is out of credits. */
+export class SpiderCreditsError extends SpiderApiError {
+  constructor(message: string) {
+    super(message, 402);
+    this.name = "SpiderCreditsError";
+  }
+}
+
+export class SpiderRateLimitError extends SpiderApiError {
+  constructor(message: string, retryAfterMs?: number) {
+    super(message, 429, retryAfterMs);
+    this.name = "SpiderRateLimitError";
+  }
+}
+
+/** A successful response whose body is not what the endpoint returns. */
+export class SpiderResponseError extends SpiderApiError {
+  constructor(path: string) {
+    super(`Spider returned an unexpected response for ${path}.`, 502);
+    this.name = "SpiderResponseError";
+  }
+}
+
+/** The request never got a response. */
+export class SpiderNetworkError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = "SpiderNetworkError";
+  }
+}
+
+/** Spider reports errors as a string or as an object with a message or code. */
+function errorMessage(error: unknown): string | undefined {
+  if (!error) return undefined;
+  if (typeof error === "string") return error;
+  if (typeof error === "object") {
+    const { message, msg, code, name } = error as Record<string, unknown>;
+    const text = [message, msg, code, name].find((value) => typeof value === "string" && value);
+    return text as string | undefined;
+  }
+  return undefined;
+}
+
+function retryAfter(res: Response): number | undefined {
+  const header = res.headers.get("retry-after");
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function toApiError(res: Response): Promise<SpiderApiError> {
+  const json = await res.json().catch(() => null);
+  const message = errorMessage(json?.error) || `Spider returned ${res.status}.`;
+  if (res.status === 401 || res.status === 403) return new SpiderAuthError(message, res.status);
+  if (res.status === 402) return new SpiderCreditsError(message);
+  if (res.status === 429) return new SpiderRateLimitError(message, retryAfter(res));
+  return new SpiderApiError(message, res.status);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseSessionResponse(json: unknown): SessionResponse | null {
+  if (!isRecord(json) || (json.data !== undefined && json.data !== null && !isRecord(json.data))) return null;
+  return json as SessionResponse;
+}
+
+function parseOAuthUrlResponse(json: unknown): OAuthUrlResponse | null {
+  if (!isRecord(json) || (json.data !== undefined && json.data !== null && typeof json.data !== "string")) return null;
+  return json as OAuthUrlResponse;
+}
+
+function parseSignOutResponse(json: unknown): SignOutResponse | null {
+  // An empty body is a successful sign-out too.
+  if (json === null) return {};
+  return isRecord(json) ? (json as SignOutResponse) : null;
+}
+
+/**
+ * A session with both tokens, keeping only the fields the app knows. Missing fields
+ * are left out rather than set to undefined, so a refresh can be merged over a session.
+ */
+function toSession(value: unknown): SpiderSession | null {
+  if (!isRecord(value)) return null;
+  const { access_token, refresh_token, expires_at, expires_in, token_type, user } = value;
+  if (typeof access_token !== "string" || !access_token || typeof refresh_token !== "string") return null;
+  return {
+    access_token,
+    refresh_token,
+    ...(typeof expires_at === "number" && { expires_at }),
+    ...(typeof expires_in === "number" && { expires_in }),
+    ...(typeof token_type === "string" && { token_type }),
+    ...(isRecord(user) && {
+      user: {
+        ...(typeof user.id === "string" && { id: user.id }),
+        ...(typeof user.email === "string" && { email: user.email }),
+        ...(isRecord(user.app_metadata) && { app_metadata: user.app_metadata }),
+      },
+    }),
+  };
+}
+
+/**
+ * Session objects appear under `data.session`, `data.user`, `session` or `user`
+ * depending on the endpoint and sign-in flow; a session is whichever has both tokens.
+ */
+function sessionFrom(json: SessionResponse): SpiderSession | null {
+  const candidates = [json.data?.session, json.data?.user, json.session, json.user];
+  for (const candidate of candidates) {
+    const session = toSession(candidate);
+    if (session) return session;
+  }
+  return null;
+}
+
+/** Splits a JSONL body into the complete lines of each chunk as it arrives. */
+export async function* readJsonlLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string[]> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let done = false;
+  try {
+    while (true) {
+      const chunk = await reader.read();
+      if (chunk.done) break;
+      buffer += decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      if (lines.some((line) => line.trim())) yield lines;
+    }
+    done = true;
+    buffer += decoder.decode();
+    if (buffer.trim()) yield [buffer];
+  } finally {
+    // Leaving the loop early cancels the stream so the connection closes.
+    if (!done) await reader.cancel().catch(() => {});
+  }
+}
+
+export interface SpiderClient {
+  /** Signs in, or registers with `registering`. Null when no session came back, e.g. pending email confirmation. */
+  authenticate: (credentials: Credentials) => Promise<SpiderSession | null>;
+  /** The provider's sign-in page, which redirects back with tokens in the URL hash. */
+  oauthUrl: (provider: OAuthProvider, options: { registering: boolean; redirectTo: string }) => Promise<string>;
+  /** A fresh session merged over the old one. */
+  refreshSession: (session: SpiderSession) => Promise<SpiderSession>;
+  signOut: (accessToken: string) => Promise<void>;
+  /** Starts a crawl and returns the successful response, whose body is the JSONL stream. */
+  openCrawl: (params: CrawlParams, options: CrawlOptions) => Promise<Response>;
+  /** Starts a crawl and yields the complete JSONL lines of each chunk. */
+  crawl: (params: CrawlParams, options: CrawlOptions) => AsyncGenerator<string[]>;
+}
+
+export function createSpiderClient({
+  baseUrl,
+  fetch: fetcher = (input, init) => fetch(input, init),
+  retries = 2,
+  retryDelayMs = 500,
+  maxRetryDelayMs = 10_000,
+}: SpiderClientOptions): SpiderClient {
+  const root = baseUrl.replace(/\/$/, "");
+
+  /** `idempotent` requests are safe to send again even if Spider may have acted on them. */
+  const request = async (path: string, init: RequestInit, idempotent: boolean): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+      let failure: SpiderApiError | SpiderNetworkError;
+      try {
+        const res = await fetcher(root + path, init);
+        if (res.ok) return res;
+        failure = await toApiError(res);
+      } catch (e) {
+        if (init.signal?.aborted) throw e;
+        failure = new SpiderNetworkError(`Could not reach ${root}.`, e);
+      }
+      const turnedAway = failure instanceof SpiderApiError && failure.status === 429;
+      const retryable = turnedAway || (idempotent && (failure instanceof SpiderNetworkError || failure.status >= 500));
+      const delay = (failure instanceof SpiderApiError && failure.retryAfterMs) || retryDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+      if (!retryable || attempt >= retries || delay > maxRetryDelayMs) throw failure;
+      await sleep(delay, init.signal ?? undefined);
+    }
+  };
+
+  /** Posts JSON and checks the response body with `parse`, which returns null for a body of the wrong shape. */
+  const postJson = async <T>(
+    path: string,
+    body: unknown,
+    parse: (json: unknown) => T | null,
+    { headers = {}, idempotent = true }: { headers?: Record<string, string>; idempotent?: boolean } = {},
+  ): Promise<T> => {
+    const res = await request(path, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    }, idempotent);
+    const parsed = parse(await res.json().catch(() => null));
+    if (!parsed) throw new SpiderResponseError(path);
+    return parsed;
+  };
+
+  const openCrawl = (params: CrawlParams, { authorization, apiKey, signal }: CrawlOptions) =>
+    request("/crawl", {
+      method: "POST",
+      headers: { "content-type": "application/jsonl", authorization, ...(apiKey && { "x-spider-api-key": apiKey }) },
+      body: JSON.stringify({
+        url: params.urls.join(","),
+        limit: params.limit,
+        return_format: params.return_format,
+        request: params.request,
+        ...(params.full_resources && { full_resources: true }),
+      }),
+      signal,
+    }, false);
+
+  return {
+    async authenticate({ email, password, registering }) {
+      const json = await postJson(
+        "/data/authenticate",
+        { email, password, ...(registering && { registering: true }) },
+        parseSessionResponse,
+        { idempotent: !registering },
+      );
+      const message = errorMessage(json.error);
+      if (message) throw new SpiderAuthError(message, 400);
+      return sessionFrom(json);
+    },
+    async oauthUrl(provider, { registering, redirectTo }) {
+      const json = await postJson("/data/authenticate", { [provider]: true, registering, json: true, redirect_to: redirectTo }, parseOAuthUrlResponse);
+      if (!json.data) throw new SpiderAuthError(errorMessage(json.error) || `Could not start ${provider} login.`, 400);
+      return json.data;
+    },
+    async refreshSession(session) {
+      const fresh = sessionFrom(await postJson("/data/refresh-session", session, parseSessionResponse));
+      if (!fresh) throw new SpiderAuthError("The session could not be refreshed.", 401);
+      return { ...session, ...fresh };
+    },
+    async signOut(accessToken) {
+      const json = await postJson("/data/sign-out", { jwt: accessToken }, parseSignOutResponse, { headers: { authorization: accessToken } });
+      const message = errorMessage(json.error);
+      if (message) throw new SpiderAuthError(message, 400);
+    },
+    openCrawl,
+    async *crawl(params, options) {
+      const res = await openCrawl(params, options);
+      if (res.body) yield* readJsonlLines(res.body);
+    },
+  };
+}
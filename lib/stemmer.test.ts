@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { stem } from "./stemmer";
+
+// Pairs from the examples in Porter's paper, as the reference implementation stems them.
+const REFERENCE: [string, string][] = [
+  ["caresses", "caress"], ["ponies", "poni"], ["ties", "ti"], ["caress", "caress"], ["cats", "cat"],
+  ["feed", "feed"], ["agreed", "agre"], ["plastered", "plaster"], ["bled", "bled"], ["motoring", "motor"], ["sing", "sing"],
+  ["conflated", "conflat"], ["troubled", "troubl"], ["sized", "size"], ["hopping", "hop"], ["tanned", "tan"],
+  ["falling", "fall"], ["hissing", "hiss"], ["fizzed", "fizz"], ["failing", "fail"], ["filing", "file"],
+  ["happy", "happi"], ["sky", "sky"],
+  ["relational", "relat"], ["conditional", "condit"], ["rational", "ration"], ["valenci", "valenc"], ["hesitanci", "hesit"],
+  ["digitizer", "digit"], ["conformabli", "conform"], ["radicalli", "radic"], ["differentli", "differ"], ["vileli", "vile"],
+  ["analogousli", "analog"], ["vietnamization", "vietnam"], ["predication", "predic"], ["operator", "oper"],
+  ["feudalism", "feudal"], ["decisiveness", "decis"], ["hopefulness", "hope"], ["callousness", "callous"],
+  ["formaliti", "formal"], ["sensitiviti", "sensit"], ["sensibiliti", "sensibl"],
+  ["triplicate", "triplic"], ["formative", "form"], ["formalize", "formal"], ["electriciti", "electr"],
+  ["electrical", "electr"], ["hopeful", "hope"], ["goodness", "good"],
+  ["revival", "reviv"], ["allowance", "allow"], ["inference", "infer"], ["airliner", "airlin"], ["gyroscopic", "gyroscop"],
+  ["adjustable", "adjust"], ["defensible", "defens"], ["irritant", "irrit"], ["replacement", "replac"], ["adjustment", "adjust"],
+  ["dependent", "depend"], ["adoption", "adopt"], ["homologou", "homolog"], ["communism", "commun"], ["activate", "activ"],
+  ["angulariti", "angular"], ["homologous", "homolog"], ["effective", "effect"], ["bowdlerize", "bowdler"],
+  ["probate", "probat"], ["rate", "rate"], ["cease", "ceas"], ["controll", "control"], ["roll", "roll"],
+  ["generalizations", "gener"], ["oscillators", "oscil"],
+];
+
+describe("stem", () => {
+  it.each(REFERENCE)("stems %s to %s", (word, expected) => {
+    expect(stem(word)).toBe(expected);
+  });
+
+  it("treats an initial y as a consonant", () => {
+    expect(stem("yelling")).toBe("yell");
+    expect(stem("youth")).toBe("youth");
+  });
+
+  it("passes short and non-alphabetic tokens through", () => {
+    expect(stem("is")).toBe("is");
+    expect(stem("mp3s")).toBe("mp3s");
+    expect(stem("2024")).toBe("2024");
+  });
+});
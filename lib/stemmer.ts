@@ -0,0 +1,69 @@
+// Porter (1980) stemmer for English, following Martin Porter's reference algorithm.
+
+const STEP2: Record<string, string> = {
+  ational: "ate", tional: "tion", enci: "ence", anci: "ance", izer: "ize", bli: "ble",
+  alli: "al", entli: "ent", eli: "e", ousli: "ous", ization: "ize", ation: "ate",
+  ator: "ate", alism: "al", iveness: "ive", fulness: "ful", ousness: "ous", aliti: "al",
+  iviti: "ive", biliti: "ble", logi: "log",
+};
+
+const STEP3: Record<string, string> = {
+  icate: "ic", ative: "", alize: "al", iciti: "ic", ical: "ic", ful: "", ness: "",
+};
+
+const c = "[^aeiou]";
+const v = "[aeiouy]";
+const C = `${c}[^aeiouy]*`;
+const V = `${v}[aeiou]*`;
+
+const M_GT_0 = new RegExp(`^(${C})?${V}${C}`);
+const M_EQ_1 = new RegExp(`^(${C})?${V}${C}(${V})?$`);
+const M_GT_1 = new RegExp(`^(${C})?${V}${C}${V}${C}`);
+const HAS_VOWEL = new RegExp(`^(${C})?${v}`);
+const CVC = new RegExp(`^${C}${v}[^aeiouwxy]$`);
+
+/** Reduces a lowercase English word to its stem; non-alphabetic tokens pass through. */
+export function stem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word;
+  let w = word;
+  const initialY = w[0] === "y";
+  if (initialY) w = "Y" + w.slice(1);
+
+  // Step 1a: plurals
+  let m = w.match(/^(.+?)(ss|i)es$/) || w.match(/^(.+?)([^s])s$/);
+  if (m) w = m[1] + m[2];
+
+  // Step 1b: -eed, -ed, -ing
+  if ((m = w.match(/^(.+?)eed$/))) {
+    if (M_GT_0.test(m[1])) w = w.slice(0, -1);
+  } else if ((m = w.match(/^(.+?)(ed|ing)$/)) && HAS_VOWEL.test(m[1])) {
+    w = m[1];
+    if (/(at|bl|iz)$/.test(w)) w += "e";
+    else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+    else if (CVC.test(w)) w += "e";
+  }
+
+  // Step 1c: y -> i
+  if ((m = w.match(/^(.+?)y$/)) && HAS_VOWEL.test(m[1])) w = m[1] + "i";
+
+  // Step 2: double suffixes
+  m = w.match(/^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/);
+  if (m && M_GT_0.test(m[1])) w = m[1] + STEP2[m[2]];
+
+  // Step 3: -ic-, -full, -ness
+  m = w.match(/^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/);
+  if (m && M_GT_0.test(m[1])) w = m[1] + STEP3[m[2]];
+
+  // Step 4: remaining suffixes when m > 1
+  if ((m = w.match(/^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/))) {
+    if (M_GT_1.test(m[1])) w = m[1];
+  } else if ((m = w.match(/^(.+?)(s|t)(ion)$/)) && M_GT_1.test(m[1] + m[2])) {
+    w = m[1] + m[2];
+  }
+
+  // Step 5: final -e and -ll
+  if ((m = w.match(/^(.+?)e$/)) && (M_GT_1.test(m[1]) || (M_EQ_1.test(m[1]) && !CVC.test(m[1])))) w = m[1];
+  if (/ll$/.test(w) && M_GT_1.test(w)) w = w.slice(0, -1);
+
+  return initialY ? "y" + w.slice(1) : w;
+}
@@ -0,0 +1,53 @@
+import * as storage from "./storage";
+import { onSelectedDatabase } from "./storage";
+import { parseCrawlLines } from "./crawl-stream";
+import { parseImportFile } from "./import";
+
+/** The storage operations served by the worker, by message method, each on the database selected when it is called. */
+export const storageApi = {
+  savePages: onSelectedDatabase(storage.savePages),
+  planImport: onSelectedDatabase(storage.planImport),
+  importPages: onSelectedDatabase(storage.importPages),
+  getPageVersions: onSelectedDatabase(storage.getPageVersions),
+  markPageViewed: onSelectedDatabase(storage.markPageViewed),
+  getStorageSettings: onSelectedDatabase(storage.getStorageSettings),
+  updateStorageSettings: onSelectedDatabase(storage.updateStorageSettings),
+  getEmbeddingSettings: onSelectedDatabase(storage.getEmbeddingSettings),
+  saveEmbeddingSettings: onSelectedDatabase(storage.saveEmbeddingSettings),
+  setDomainPinned: onSelectedDatabase(storage.setDomainPinned),
+  setDomainSchedule: onSelectedDatabase(storage.setDomainSchedule),
+  claimDueSchedule: onSelectedDatabase(storage.claimDueSchedule),
+  findStalePages: onSelectedDatabase(storage.findStalePages),
+  removeStalePages: onSelectedDatabase(storage.removeStalePages),
+  getStorageUsage: onSelectedDatabase(storage.getStorageUsage),
+  getFailedPages: onSelectedDatabase(storage.getFailedPages),
+  saveCrawl: onSelectedDatabase(storage.saveCrawl),
+  getCrawls: onSelectedDatabase(storage.getCrawls),
+  getPagesByCrawl: onSelectedDatabase(storage.getPagesByCrawl),
+  recoverInterruptedCrawls: onSelectedDatabase(storage.recoverInterruptedCrawls),
+  getMissingUrls: onSelectedDatabase(storage.getMissingUrls),
+  deleteCrawl: onSelectedDatabase(storage.deleteCrawl),
+  getPagesByDomain: onSelectedDatabase(storage.getPagesByDomain),
+  getPage: onSelectedDatabase(storage.getPage),
+  getPageLinks: onSelectedDatabase(storage.getPageLinks),
+  getOrphanPages: onSelectedDatabase(storage.getOrphanPages),
+  getDuplicateClusters: onSelectedDatabase(storage.getDuplicateClusters),
+  deletePages: onSelectedDatabase(storage.deletePages),
+  getSavedDomains: onSelectedDatabase(storage.getSavedDomains),
+  searchPages: onSelectedDatabase(storage.searchPages),
+  searchSemantic: onSelectedDatabase(storage.searchSemantic),
+  searchHybrid: onSelectedDatabase(storage.searchHybrid),
+  suggestQuery: onSelectedDatabase(storage.suggestQuery),
+  clearDomain: onSelectedDatabase(storage.clearDomain),
+  clearAll: onSelectedDatabase(storage.clearAll),
+  getEncryptionStatus: onSelectedDatabase(storage.getEncryptionStatus),
+  enableEncryption: onSelectedDatabase(storage.enableEncryption),
+  unlockEncryption: onSelectedDatabase(storage.unlockEncryption),
+  lockEncryption: storage.lockEncryption,
+  disableEncryption: onSelectedDatabase(storage.disableEncryption),
+  resetEncryption: onSelectedDatabase(storage.resetEncryption),
+  selectDatabase: storage.selectDatabase,
+  deleteDatabase: storage.deleteDatabase,
+  parseCrawlLines,
+  parseImportFile,
+};
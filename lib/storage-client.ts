@@ -0,0 +1,128 @@
+import { MigrationError, StorageQuotaError, type TaskProgress } from "./storage";
+import { storageApi } from "./storage-api";
+import { QueryParseError } from "./query";
+import { ImportFormatError } from "./import";
+import { EncryptionLockedError, WrongPassphraseError } from "./encryption";
+import type { SerializedError, StorageApi, StorageMethod, StorageRequest, StorageResponse } from "./storage-protocol";
+
+/*
+ * Main-thread side of the storage worker. Every export mirrors the function of the same
+ * name in storage.ts but runs in the worker, keeping parsing, indexing and search off
+ * the UI thread. Where workers are unavailable the calls run in place instead.
+ */
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: TaskProgress) => void;
+}
+
+const ERROR_CLASSES: Record<string, { prototype: Error }> = {
+  MigrationError,
+  StorageQuotaError,
+  QueryParseError,
+  ImportFormatError,
+  EncryptionLockedError,
+  WrongPassphraseError,
+};
+
+let worker: Worker | null | undefined;
+let nextId = 0;
+const pending = new Map<number, PendingCall>();
+
+function reviveError(error: SerializedError): Error {
+  const revived: Error = Object.create((ERROR_CLASSES[error.name] ?? Error).prototype);
+  return Object.assign(revived, error.fields, { name: error.name, message: error.message, stack: error.stack });
+}
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === "undefined") return (worker = null);
+  try {
+    worker = new Worker(new URL("./storage.worker.ts", import.meta.url));
+  } catch (e) {
+    console.error("Storage worker unavailable, running storage on the main thread", e);
+    return (worker = null);
+  }
+  worker.onmessage = ({ data: response }: MessageEvent<StorageResponse>) => {
+    const call = pending.get(response.id);
+    if (!call) return;
+    if (response.type === "progress") {
+      call.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === "result") call.resolve(response.value);
+    else call.reject(reviveError(response.error));
+  };
+  worker.onerror = (event) => {
+    const error = new Error(event.message || "Storage worker crashed");
+    pending.forEach((call) => call.reject(error));
+    pending.clear();
+  };
+  return worker;
+}
+
+function send<M extends StorageMethod>(target: Worker, method: M, args: Parameters<StorageApi[M]>): Promise<unknown> {
+  const id = nextId++;
+  // Callbacks cannot be posted; the worker re-creates `onProgress` and streams progress back.
+  const last = args[args.length - 1] as { onProgress?: PendingCall["onProgress"] } | undefined;
+  const onProgress = typeof last?.onProgress === "function" ? last.onProgress : undefined;
+  const posted = onProgress ? [...args.slice(0, -1), { ...last, onProgress: undefined }] : args;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject, onProgress });
+    target.postMessage({ id, method, args: posted, progress: !!onProgress } as StorageRequest);
+  });
+}
+
+async function call<M extends StorageMethod>(method: M, ...args: Parameters<StorageApi[M]>): Promise<Awaited<ReturnType<StorageApi[M]>>> {
+  const target = getWorker();
+  if (!target) return (storageApi[method] as (...args: unknown[]) => Promise<Awaited<ReturnType<StorageApi[M]>>>)(...args);
+  return send(target, method, args) as Promise<Awaited<ReturnType<StorageApi[M]>>>;
+}
+
+export const savePages = (...args: Parameters<StorageApi["savePages"]>) => call("savePages", ...args);
+export const planImport = (...args: Parameters<StorageApi["planImport"]>) => call("planImport", ...args);
+export const importPages = (...args: Parameters<StorageApi["importPages"]>) => call("importPages", ...args);
+export const getPageVersions = (...args: Parameters<StorageApi["getPageVersions"]>) => call("getPageVersions", ...args);
+export const markPageViewed = (...args: Parameters<StorageApi["markPageViewed"]>) => call("markPageViewed", ...args);
+export const getStorageSettings = (...args: Parameters<StorageApi["getStorageSettings"]>) => call("getStorageSettings", ...args);
+export const updateStorageSettings = (...args: Parameters<StorageApi["updateStorageSettings"]>) => call("updateStorageSettings", ...args);
+export const getEmbeddingSettings = (...args: Parameters<StorageApi["getEmbeddingSettings"]>) => call("getEmbeddingSettings", ...args);
+export const saveEmbeddingSettings = (...args: Parameters<StorageApi["saveEmbeddingSettings"]>) => call("saveEmbeddingSettings", ...args);
+export const setDomainPinned = (...args: Parameters<StorageApi["setDomainPinned"]>) => call("setDomainPinned", ...args);
+export const setDomainSchedule = (...args: Parameters<StorageApi["setDomainSchedule"]>) => call("setDomainSchedule", ...args);
+export const claimDueSchedule = (...args: Parameters<StorageApi["claimDueSchedule"]>) => call("claimDueSchedule", ...args);
+export const findStalePages = (...args: Parameters<StorageApi["findStalePages"]>) => call("findStalePages", ...args);
+export const removeStalePages = (...args: Parameters<StorageApi["removeStalePages"]>) => call("removeStalePages", ...args);
+export const getStorageUsage = (...args: Parameters<StorageApi["getStorageUsage"]>) => call("getStorageUsage", ...args);
+export const getFailedPages = (...args: Parameters<StorageApi["getFailedPages"]>) => call("getFailedPages", ...args);
+export const saveCrawl = (...args: Parameters<StorageApi["saveCrawl"]>) => call("saveCrawl", ...args);
+export const getCrawls = (...args: Parameters<StorageApi["getCrawls"]>) => call("getCrawls", ...args);
+export const getPagesByCrawl = (...args: Parameters<StorageApi["getPagesByCrawl"]>) => call("getPagesByCrawl", ...args);
+export const recoverInterruptedCrawls = (...args: Parameters<StorageApi["recoverInterruptedCrawls"]>) => call("recoverInterruptedCrawls", ...args);
+export const getMissingUrls = (...args: Parameters<StorageApi["getMissingUrls"]>) => call("getMissingUrls", ...args);
+export const deleteCrawl = (...args: Parameters<StorageApi["deleteCrawl"]>) => call("deleteCrawl", ...args);
+export const getPagesByDomain = (...args: Parameters<StorageApi["getPagesByDomain"]>) => call("getPagesByDomain", ...args);
+export const getPage = (...args: Parameters<StorageApi["getPage"]>) => call("getPage", ...args);
+export const getPageLinks = (...args: Parameters<StorageApi["getPageLinks"]>) => call("getPageLinks", ...args);
+export const getOrphanPages = (...args: Parameters<StorageApi["getOrphanPages"]>) => call("getOrphanPages", ...args);
+export const getDuplicateClusters = (...args: Parameters<StorageApi["getDuplicateClusters"]>) => call("getDuplicateClusters", ...args);
+export const deletePages = (...args: Parameters<StorageApi["deletePages"]>) => call("deletePages", ...args);
+export const getSavedDomains = (...args: Parameters<StorageApi["getSavedDomains"]>) => call("getSavedDomains", ...args);
+export const searchPages = (...args: Parameters<StorageApi["searchPages"]>) => call("searchPages", ...args);
+export const searchSemantic = (...args: Parameters<StorageApi["searchSemantic"]>) => call("searchSemantic", ...args);
+export const searchHybrid = (...args: Parameters<StorageApi["searchHybrid"]>) => call("searchHybrid", ...args);
+export const suggestQuery = (...args: Parameters<StorageApi["suggestQuery"]>) => call("suggestQuery", ...args);
+export const clearDomain = (...args: Parameters<StorageApi["clearDomain"]>) => call("clearDomain", ...args);
+export const clearAll = (...args: Parameters<StorageApi["clearAll"]>) => call("clearAll", ...args);
+export const getEncryptionStatus = (...args: Parameters<StorageApi["getEncryptionStatus"]>) => call("getEncryptionStatus", ...args);
+export const enableEncryption = (...args: Parameters<StorageApi["enableEncryption"]>) => call("enableEncryption", ...args);
+export const unlockEncryption = (...args: Parameters<StorageApi["unlockEncryption"]>) => call("unlockEncryption", ...args);
+export const lockEncryption = (...args: Parameters<StorageApi["lockEncryption"]>) => call("lockEncryption", ...args);
+export const disableEncryption = (...args: Parameters<StorageApi["disableEncryption"]>) => call("disableEncryption", ...args);
+export const resetEncryption = (...args: Parameters<StorageApi["resetEncryption"]>) => call("resetEncryption", ...args);
+export const selectDatabase = (...args: Parameters<StorageApi["selectDatabase"]>) => call("selectDatabase", ...args);
+export const deleteDatabase = (...args: Parameters<StorageApi["deleteDatabase"]>) => call("deleteDatabase", ...args);
+export const parseCrawlLines = (...args: Parameters<StorageApi["parseCrawlLines"]>) => call("parseCrawlLines", ...args);
+export const parseImportFile = (...args: Parameters<StorageApi["parseImportFile"]>) => call("parseImportFile", ...args);
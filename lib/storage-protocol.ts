@@ -0,0 +1,30 @@
+import type { TaskProgress } from "./storage";
+import type { storageApi } from "./storage-api";
+
+export type StorageApi = typeof storageApi;
+
+export type StorageMethod = keyof StorageApi;
+
+export type StorageRequest = {
+  [M in StorageMethod]: {
+    id: number;
+    method: M;
+    args: Parameters<StorageApi[M]>;
+    /** The caller passed an `onProgress` callback in its last argument. */
+    progress?: boolean;
+  };
+}[StorageMethod];
+
+/** Errors lose their class crossing the worker boundary, so they travel by name. */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  /** Primitive own properties such as `position` or `neededBytes`. */
+  fields: Record<string, string | number | boolean>;
+}
+
+export type StorageResponse =
+  | { id: number; type: "result"; value: unknown }
+  | { id: number; type: "error"; error: SerializedError }
+  | { id: number; type: "progress"; progress: TaskProgress };
@@ -0,0 +1,196 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearDomain, databaseName, getEmbeddingSettings, getPagesByDomain, getPageVersions, getStorageUsage, markPageViewed, saveEmbeddingSettings, savePages, searchPages, searchSemantic, setDomainPinned, StorageQuotaError, updateStorageSettings,
+} from "./storage";
+
+const DB_NAME = databaseName();
+
+/** Creates the database as the first schema version left it, holding `pages`. */
+function createVersion1(pages: object[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore("pages", { keyPath: "url" });
+      store.createIndex("domain", "domain", { unique: false });
+      store.createIndex("timestamp", "timestamp", { unique: false });
+      for (const page of pages) store.put(page);
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openCurrent(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let quota = Infinity;
+let browserUsage = 0;
+
+// Pages of the same size, so usage moves in whole pages.
+const page = (url: string) => ({ url, content: "x".repeat(1000), status: 200 });
+
+async function saveAt(time: number, urls: string[]) {
+  vi.setSystemTime(time);
+  browserUsage = (await getStorageUsage(DB_NAME)).used;
+  return savePages(DB_NAME, urls.map(page));
+}
+
+async function savedUrls(): Promise<string[]> {
+  const domains = ["a.com", "b.com", "c.com"];
+  return (await Promise.all(domains.map((domain) => getPagesByDomain(DB_NAME, domain)))).flat().map((p) => p.url).sort();
+}
+
+beforeEach(() => {
+  browserUsage = 0;
+  quota = Infinity;
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.stubGlobal("navigator", { storage: { estimate: async () => ({ usage: browserUsage, quota }) } });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("storage quota", () => {
+  let pageBytes = 0;
+
+  // Room for exactly three pages.
+  beforeEach(async () => {
+    await saveAt(1000, ["https://a.com/1"]);
+    pageBytes = (await getStorageUsage(DB_NAME)).used;
+    quota = 3 * pageBytes;
+    await saveAt(2000, ["https://b.com/1"]);
+    await saveAt(3000, ["https://c.com/1"]);
+  });
+
+  it("counts saved bytes and replaces a page's share when it is saved again", async () => {
+    expect((await getStorageUsage(DB_NAME)).used).toBe(3 * pageBytes);
+    await saveAt(4000, ["https://c.com/1"]);
+    expect((await getStorageUsage(DB_NAME)).used).toBe(3 * pageBytes);
+  });
+
+  it("evicts the oldest crawl first to make room", async () => {
+    expect(await saveAt(4000, ["https://c.com/2"])).toMatchObject({ saved: 1, evicted: ["https://a.com/1"] });
+    expect(await savedUrls()).toEqual(["https://b.com/1", "https://c.com/1", "https://c.com/2"]);
+    expect((await getStorageUsage(DB_NAME)).used).toBe(3 * pageBytes);
+  });
+
+  it("evicts the least recently viewed page when configured to", async () => {
+    await updateStorageSettings(DB_NAME, { evictionPolicy: "least-recently-viewed" });
+    vi.setSystemTime(3500);
+    await markPageViewed(DB_NAME, "https://a.com/1");
+    expect((await saveAt(4000, ["https://c.com/2"])).evicted).toEqual(["https://b.com/1"]);
+  });
+
+  it("never evicts pinned domains", async () => {
+    await setDomainPinned(DB_NAME, "a.com", true);
+    expect((await saveAt(4000, ["https://c.com/2"])).evicted).toEqual(["https://b.com/1"]);
+  });
+
+  it("refuses without writing when the policy says so or too little can be evicted", async () => {
+    await updateStorageSettings(DB_NAME, { evictionPolicy: "refuse" });
+    await expect(saveAt(4000, ["https://c.com/2"])).rejects.toBeInstanceOf(StorageQuotaError);
+
+    await updateStorageSettings(DB_NAME, { evictionPolicy: "oldest-crawl", pinnedDomains: ["a.com", "b.com"] });
+    await expect(saveAt(4000, ["https://c.com/2", "https://c.com/3"])).rejects.toThrow(/can be evicted/);
+    expect(await savedUrls()).toEqual(["https://a.com/1", "https://b.com/1", "https://c.com/1"]);
+  });
+});
+
+describe("migrations", () => {
+  it("upgrades a version 1 database step by step, backfilling what each step adds", async () => {
+    const content = "<html><head><title>Crawling guide</title></head><body><p>Schedules for crawlers</p></body></html>";
+    await createVersion1([{ url: "https://a.com/guide", content, status: 200, domain: "a.com", timestamp: 1000, contentSize: content.length }]);
+
+    // Stemmed terms from the rebuilt index, embeddings and the usage counter all come from later steps.
+    expect((await searchPages(DB_NAME, "crawler schedule")).map((r) => r.url)).toEqual(["https://a.com/guide"]);
+    expect((await searchSemantic(DB_NAME, "crawling schedules")).results.map((r) => r.url)).toEqual(["https://a.com/guide"]);
+    expect((await getStorageUsage(DB_NAME)).used).toBeGreaterThan(content.length);
+
+    const db = await openCurrent();
+    expect(Array.from(db.objectStoreNames)).toEqual(expect.arrayContaining(["pages", "index", "meta", "embeddings"]));
+    db.close();
+  });
+
+  it("creates every store in a new database", async () => {
+    expect(await searchPages(DB_NAME, "anything")).toEqual([]);
+    const db = await openCurrent();
+    expect(db.version).toBeGreaterThan(1);
+    expect(Array.from(db.objectStoreNames)).toEqual(expect.arrayContaining(["pages", "index", "meta", "embeddings"]));
+    db.close();
+  });
+});
+
+describe("page versions", () => {
+  const recrawl = (time: number, content: string) => {
+    vi.setSystemTime(time);
+    return savePages(DB_NAME, [{ url: "https://a.com/", content, status: 200 }]);
+  };
+  const versions = async () => (await getPageVersions(DB_NAME, "https://a.com/")).map((v) => [v.content, v.timestamp]);
+
+  it("keeps the previous content when a re-crawl changes it, newest first", async () => {
+    await recrawl(1000, "first");
+    await recrawl(2000, "first");
+    expect(await versions()).toEqual([]);
+    const unversioned = (await getStorageUsage(DB_NAME)).used;
+    await recrawl(3000, "second");
+    await recrawl(4000, "third");
+    expect(await versions()).toEqual([["second", 3000], ["first", 2000]]);
+    expect((await getStorageUsage(DB_NAME)).used).toBeGreaterThan(unversioned);
+  });
+
+  it("prunes to the configured number of versions", async () => {
+    await updateStorageSettings(DB_NAME, { versionRetention: 2 });
+    for (const [i, content] of ["one", "two", "three", "four"].entries()) await recrawl(1000 * (i + 1), content);
+    expect(await versions()).toEqual([["three", 3000], ["two", 2000]]);
+    await updateStorageSettings(DB_NAME, { versionRetention: 0 });
+    await recrawl(5000, "five");
+    expect(await versions()).toEqual([]);
+    const pruned = (await getStorageUsage(DB_NAME)).used;
+    await clearDomain(DB_NAME, "a.com");
+    await recrawl(5000, "five");
+    expect((await getStorageUsage(DB_NAME)).used).toBe(pruned);
+  });
+
+  it("deletes versions with their page", async () => {
+    await recrawl(1000, "first");
+    await recrawl(2000, "second");
+    await clearDomain(DB_NAME, "a.com");
+    expect(await versions()).toEqual([]);
+    expect((await getStorageUsage(DB_NAME)).used).toBe(0);
+  });
+});
+
+describe("embedding settings", () => {
+  it("keeps each workspace's endpoint in its own database", async () => {
+    const other = databaseName("user-1:work");
+    const settings = { endpoint: "http://localhost:8080/v1/embeddings", model: "small" };
+    await saveEmbeddingSettings(DB_NAME, settings);
+    expect(await getEmbeddingSettings(DB_NAME)).toEqual(settings);
+    expect(await getEmbeddingSettings(other)).toBeNull();
+    await saveEmbeddingSettings(DB_NAME, null);
+    expect(await getEmbeddingSettings(DB_NAME)).toBeNull();
+  });
+
+  it("reports a failing endpoint and falls back to local embeddings", async () => {
+    vi.stubGlobal("fetch", async () => new Response(null, { status: 503 }));
+    await saveEmbeddingSettings(DB_NAME, { endpoint: "http://localhost:8080/v1/embeddings" });
+    const saved = await savePages(DB_NAME, [{ url: "https://a.com/guide", content: "<p>Schedules for crawlers</p>", status: 200 }]);
+    expect(saved).toMatchObject({ saved: 1, embeddingError: "Embedding endpoint returned 503" });
+    const { results, embeddingError } = await searchSemantic(DB_NAME, "crawling schedules");
+    expect(results.map((r) => r.url)).toEqual(["https://a.com/guide"]);
+    expect(embeddingError).toBe("Embedding endpoint returned 503");
+  });
+});
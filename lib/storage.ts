@@ -1,6 +1,48 @@
+import {
+  analyzeDocument, extractLinks, fuzzyMatches, scoreBM25, toPosting, tokenize, words, EMPTY_STATS, FUZZY_WEIGHT,
+  type AnalyzedDocument, type IndexStats, type Posting,
+} from "./search-index";
+import { matchesQuery, mentionsStatus, parseQuery, positiveTerms, requiresText, type QueryNode, type TermExpansions } from "./query";
+import { stem } from "./stemmer";
+import { computePageRank } from "./link-graph";
+import { clusterFingerprints, simhash } from "./fingerprint";
+import { chunkText, cosineSimilarity, createHttpEmbedder, localEmbedder, type Embedder, type EmbeddingSettings } from "./embeddings";
+import { extractContent, pagePassages, pageText, pageTitle, type Heading, type Passage } from "./extract";
+import {
+  blindTerm, createKeys, keyedHash, open, openJson, seal, sealJson, unlockKeys, EncryptionLockedError,
+  type EncryptionKeys, type KeyCheck, type SealedData,
+} from "./encryption";
+
 const DB_NAME = "spider-knowledge-base";
-const DB_VERSION = 1;
 const PAGES_STORE = "pages";
+const INDEX_STORE = "index";
+const META_STORE = "meta";
+const EMBEDDINGS_STORE = "embeddings";
+const CRAWLS_STORE = "crawls";
+const VERSIONS_STORE = "page_versions";
+const LINKS_STORE = "links";
+const CRAWL_LOCK_PREFIX = "spider-crawl:";
+const INDEX_STATS_KEY = "index-stats";
+const STORAGE_USAGE_KEY = "storage-usage";
+const STORAGE_SETTINGS_KEY = "storage-settings";
+const EMBEDDING_SETTINGS_KEY = "embedding-settings";
+const SCHEDULES_KEY = "domain-schedules";
+// Cached PageRank scores; deleted whenever the link graph changes.
+const PAGE_RANK_KEY = "page-rank";
+// Cached near-duplicate clusters; deleted whenever pages change.
+const DUPLICATES_KEY = "duplicate-clusters";
+// Present while page content is encrypted; holds the passphrase check.
+const ENCRYPTION_KEY = "encryption";
+// Records converted per transaction when encryption is turned on or off.
+const CONVERT_BATCH_SIZE = 100;
+// Below this many matching pages a query term is a candidate for a "did you mean" correction.
+const SUGGEST_MIN_DF = 3;
+// Reciprocal rank fusion constant for hybrid search.
+const RRF_K = 60;
+// Most passages one page contributes to a result list.
+const PASSAGES_PER_PAGE = 3;
+// How much link authority lifts a keyword score: a page with average PageRank gets ~14%.
+const AUTHORITY_WEIGHT = 0.2;
 const MAX_STORAGE_BYTES = 50 * 1024 * 1024;
 
 export interface StoredPage {
@@ -11,6 +53,75 @@ export interface StoredPage {
   domain: string;
   timestamp: number;
   contentSize: number;
+  /**
+   * Bytes the page takes across the pages, index, embeddings and links stores, as counted
+   * in storage usage. Its versions are counted on their own.
+   */
+  storedSize?: number;
+  lastViewed?: number;
+  /** The crawl run that last saved this page. */
+  crawlId?: string;
+  /** Hash of `content`; while encrypted, a keyed hash of it that only tells equal contents apart. */
+  contentHash?: string;
+  // Extracted from `content` at save time; missing on records from before extraction.
+  title?: string | null;
+  description?: string | null;
+  canonical?: string | null;
+  lang?: string | null;
+  headings?: Heading[];
+  /** Main-content text without navigation and other boilerplate. */
+  text?: string;
+  wordCount?: number;
+  passages?: Passage[];
+  /** SimHash of the main text, for near-duplicate detection. Missing on failed pages. */
+  fingerprint?: string;
+  /**
+   * Set while encryption is on: `content`, the fields extracted from it and its hashes,
+   * encrypted. `content` is then empty and the other fields are missing until the page is opened.
+   */
+  sealed?: SealedData;
+  /** The page's index keys and lengths, so an encrypted page can leave the index without decrypting it. */
+  indexed?: { terms: string[]; length: number; titleLength: number };
+}
+
+/** A page as streamed back by the Spider `/crawl` endpoint. */
+export interface CrawledPage {
+  url: string;
+  content?: string;
+  error?: string;
+  status?: number;
+  /** When the page was fetched, for pages imported from a file. Defaults to the save time. */
+  timestamp?: number;
+}
+
+/** Earlier content of a page, kept when a re-crawl changes it. */
+export interface PageVersion {
+  id: string;
+  url: string;
+  content: string;
+  contentHash: string;
+  contentSize: number;
+  timestamp: number;
+  crawlId?: string;
+  /**
+   * Set while encryption is on, holding `content` and its hash. `content` is then empty,
+   * and `contentHash` and the hash in `id` are keyed hashes like the page's.
+   */
+  sealed?: SealedData;
+}
+
+/** Outgoing links of a saved page, kept for backlinks and PageRank. Not stored while encryption is on. */
+interface LinkRecord {
+  url: string;
+  domain: string;
+  links: string[];
+}
+
+export interface PageLinks {
+  /** Pages this page links to, and whether each one is saved. */
+  outlinks: { url: string; saved: boolean }[];
+  /** Saved pages that link to this page. */
+  backlinks: string[];
 }
 
 export interface DomainInfo {
@@ -18,24 +129,911 @@ export interface DomainInfo {
   pageCount: number;
   totalSize: number;
   lastCrawled: number;
+  pinned: boolean;
+  schedule?: DomainSchedule;
+}
+
+export type ScheduleInterval = "daily" | "weekly";
+
+/** An automatic re-crawl of a domain, run while the app is open. */
+export interface DomainSchedule {
+  domain: string;
+  interval: ScheduleInterval;
+  maxPages: number;
+  nextRunAt: number;
+  lastRunAt?: number;
+}
+
+/** How a crawl changed the stored pages of the sites it visited. */
+export interface CrawlChanges {
+  added: number;
+  changed: number;
+  /** Stored pages the crawl no longer found, once the user confirmed deleting them. */
+  removed: number;
+}
+
+/** What `savePages` does when a batch would push storage past its limit. */
+export type EvictionPolicy = "oldest-crawl" | "least-recently-viewed" | "refuse";
+
+export interface StorageSettings {
+  evictionPolicy: EvictionPolicy;
+  /** Domains whose pages are never evicted. */
+  pinnedDomains: string[];
+  /** How many earlier versions to keep per page; 0 disables history. */
+  versionRetention: number;
+  /** Minutes without activity before an encrypted knowledge base locks itself. */
+  autoLockMinutes: number;
+}
+
+export interface StorageUsage {
+  used: number;
+  limit: number;
+  browserUsage?: number;
+  browserQuota?: number;
+}
+
+/** Settings sent to the Spider `/crawl` endpoint. */
+export interface CrawlConfig {
+  limit: number;
+  return_format: string;
+  request: string;
+  full_resources: boolean;
+}
+
+/** "partial" crawls stopped early (dropped connection, closed tab) and can be resumed. */
+export type CrawlStatus = "running" | "completed" | "partial" | "failed";
+
+export interface CrawlRecord {
+  id: string;
+  urls: string[];
+  config: CrawlConfig;
+  status: CrawlStatus;
+  startedAt: number;
+  finishedAt?: number;
+  /** Last time pages from this crawl were flushed to storage. */
+  updatedAt?: number;
+  durationMs?: number;
+  pageCount: number;
+  /** Pages that came back with an error or a non-2xx status. */
+  failedCount: number;
+  /** Streamed lines that were not valid JSON. */
+  parseErrors?: number;
+  error?: string;
+  changes?: CrawlChanges;
+  /** The domain whose schedule started this crawl, if any. */
+  scheduledFor?: string;
+  /**
+   * Saved pages of `scheduledFor` that this run did not return, so may be gone from the
+   * site. They stay until the user confirms deleting them.
+   */
+  stale?: string[];
+}
+
+export interface SaveResult {
+  saved: number;
+  /** Pages that were not stored before. */
+  added: number;
+  /** Stored pages whose content differs from before. */
+  changed: number;
+  evicted: string[];
+  /** Why the embedding endpoint failed, if it did; the pages then only have local embeddings. */
+  embeddingError?: string;
+}
+
+/** What to do with imported pages whose URL is already saved. */
+export type ImportConflictPolicy = "skip" | "overwrite" | "newer";
+
+export interface ImportPlan {
+  /** Distinct URLs in the file; later rows win over earlier ones. */
+  total: number;
+  added: number;
+  /** Saved pages the import replaces. */
+  replaced: number;
+  /** Saved pages the import leaves alone. */
+  skipped: number;
+}
+
+/** Reported by long-running operations, in pages. */
+export interface TaskProgress {
+  stage: string;
+  done: number;
+  total: number;
+}
+
+export type EncryptionPass = "encrypt" | "decrypt";
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  /** This tab holds the key, so encrypted pages can be read and saved. */
+  unlocked: boolean;
+  /** A pass over the stored records that was interrupted; unlocking resumes it. */
+  migrating?: EncryptionPass;
+}
+
+interface EncryptionRecord extends KeyCheck {
+  migrating?: EncryptionPass;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(message: string, public neededBytes: number) {
+    super(message);
+    this.name = "StorageQuotaError";
+  }
 }
 
-function openDB(): Promise<IDBDatabase> {
+const DEFAULT_STORAGE_SETTINGS: StorageSettings = { evictionPolicy: "oldest-crawl", pinnedDomains: [], versionRetention: 5, autoLockMinutes: 15 };
+
+/** The passage of a page that a search result points at. */
+export interface PassageHit extends Passage {
+  /** Position in the page's `passages`. */
+  index: number;
+}
+
+export interface SearchResult extends StoredPage {
+  score: number;
+  passage?: PassageHit;
+  /** Near-duplicates of this page, collapsed into it. */
+  similar?: string[];
+}
+
+export type SearchMode = "keyword" | "semantic" | "hybrid";
+
+export interface SemanticSearchResults {
+  results: SearchResult[];
+  /** Why the embedding endpoint failed, if it did; the results then come from local embeddings. */
+  embeddingError?: string;
+}
+
+interface IndexEntry {
+  term: string;
+  /** A surface form of the stemmed term, used when suggesting corrections. */
+  word: string;
+  postings: Posting[];
+  /** Set while encryption is on: the term and its word, encrypted. `term` is then a keyed hash and `word` empty. */
+  sealed?: SealedData;
+}
+
+interface EmbeddingRecord {
+  id: string;
+  url: string;
+  embedder: string;
+  chunk: number;
+  /** The page passage the chunk was cut from. */
+  passage?: number;
+  /** Missing while encryption is on, when `sealed` holds its bytes instead. */
+  vector?: Float32Array;
+  sealed?: SealedData;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  /**
+   * Runs inside the upgrade transaction. Schema changes must happen before the first
+   * await; backfills may then read and write any store through `tx`.
+   */
+  migrate(db: IDBDatabase, tx: IDBTransaction): void | Promise<void>;
+}
+
+/**
+ * Ordered schema history. Opening the database runs every step above the stored
+ * version in one upgrade transaction, so a failing step rolls all of them back and
+ * leaves the previous version intact. Append new steps; never edit shipped ones.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create the pages store",
+    migrate: (db) => {
+      const store = db.createObjectStore(PAGES_STORE, { keyPath: "url" });
+      store.createIndex("domain", "domain", { unique: false });
+      store.createIndex("timestamp", "timestamp", { unique: false });
+    },
+  },
+  {
+    version: 2,
+    description: "Create the inverted index and meta stores",
+    migrate: (db) => {
+      db.createObjectStore(INDEX_STORE, { keyPath: "term" });
+      db.createObjectStore(META_STORE);
+    },
+  },
+  {
+    version: 3,
+    description: "Rebuild the inverted index with stemmed terms",
+    migrate: async (_, tx) => {
+      tx.objectStore(INDEX_STORE).clear();
+      tx.objectStore(META_STORE).delete(INDEX_STATS_KEY);
+      const pages = await requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll());
+      await updateIndex(tx, [], pages.map(analyzePage));
+    },
+  },
+  {
+    version: 4,
+    description: "Create the embeddings store and embed existing pages locally",
+    migrate: async (db, tx) => {
+      const store = db.createObjectStore(EMBEDDINGS_STORE, { keyPath: "id" });
+      store.createIndex("url", "url", { unique: false });
+      store.createIndex("embedder", "embedder", { unique: false });
+      const pages = await requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll());
+      for (const record of await embedPages(localEmbedder, pages)) store.put(record);
+    },
+  },
+  {
+    version: 5,
+    description: "Count stored bytes for quota accounting",
+    migrate: async (_, tx) => {
+      const pages = await requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll());
+      tx.objectStore(META_STORE).put(pages.reduce((sum, p) => sum + p.contentSize, 0), STORAGE_USAGE_KEY);
+    },
+  },
+  {
+    version: 6,
+    description: "Create the crawl history store and tag pages by crawl",
+    migrate: (db, tx) => {
+      const store = db.createObjectStore(CRAWLS_STORE, { keyPath: "id" });
+      store.createIndex("startedAt", "startedAt", { unique: false });
+      tx.objectStore(PAGES_STORE).createIndex("crawlId", "crawlId", { unique: false });
+    },
+  },
+  {
+    version: 7,
+    description: "Create the page version store and hash existing content",
+    migrate: async (db, tx) => {
+      db.createObjectStore(VERSIONS_STORE, { keyPath: "id" }).createIndex("url", "url", { unique: false });
+      await transformPages(tx, (page) => ({ ...page, contentHash: hashContent(page.content) }));
+    },
+  },
+  {
+    version: 8,
+    description: "Extract titles, metadata and main text, then re-index and re-embed from it",
+    migrate: async (_, tx) => {
+      await transformPages(tx, (page) => ({ ...page, ...extractContent(page.content, page.url) }));
+      tx.objectStore(INDEX_STORE).clear();
+      tx.objectStore(META_STORE).delete(INDEX_STATS_KEY);
+      const pages = await requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll());
+      await updateIndex(tx, [], pages.map(analyzePage));
+      const embeddings = tx.objectStore(EMBEDDINGS_STORE);
+      const stale = await requestToPromise(embeddings.index("embedder").getAllKeys(localEmbedder.id));
+      for (const key of stale) embeddings.delete(key);
+      for (const record of await embedPages(localEmbedder, pages)) embeddings.put(record);
+    },
+  },
+  {
+    version: 9,
+    description: "Split pages into heading passages and re-embed them passage by passage",
+    migrate: async (_, tx) => {
+      await transformPages(tx, (page) => ({ ...page, ...extractContent(page.content, page.url) }));
+      const pages = await requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll());
+      const embeddings = tx.objectStore(EMBEDDINGS_STORE);
+      const stale = await requestToPromise(embeddings.index("embedder").getAllKeys(localEmbedder.id));
+      for (const key of stale) embeddings.delete(key);
+      for (const record of await embedPages(localEmbedder, pages)) embeddings.put(record);
+    },
+  },
+  {
+    version: 10,
+    description: "Create the link graph store from saved pages",
+    migrate: async (db, tx) => {
+      const store = db.createObjectStore(LINKS_STORE, { keyPath: "url" });
+      store.createIndex("links", "links", { unique: false, multiEntry: true });
+      store.createIndex("domain", "domain", { unique: false });
+      const pages = await requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll());
+      for (const page of pages) {
+        if (!isFailedPage(page)) store.put(toLinkRecord(page));
+      }
+    },
+  },
+  {
+    version: 11,
+    description: "Fingerprint pages for near-duplicate detection",
+    migrate: async (_, tx) => {
+      tx.objectStore(PAGES_STORE).createIndex("fingerprint", "fingerprint", { unique: false });
+      await transformPages(tx, (page) => withFingerprint({ ...page }));
+    },
+  },
+  {
+    version: 12,
+    description: "Count the postings, embeddings, links and versions of pages towards storage usage",
+    migrate: async (_, tx) => {
+      const [embeddings, links, versions] = await Promise.all([
+        requestToPromise<EmbeddingRecord[]>(tx.objectStore(EMBEDDINGS_STORE).getAll()),
+        requestToPromise<LinkRecord[]>(tx.objectStore(LINKS_STORE).getAll()),
+        requestToPromise<PageVersion[]>(tx.objectStore(VERSIONS_STORE).getAll()),
+      ]);
+      const related = groupByUrl([...embeddings, ...links]);
+      let used = versions.reduce((sum, version) => sum + storedBytes(version), 0);
+      await transformPages(tx, (page) => {
+        const terms = page.indexed?.terms.length ?? analyzePage(page).terms.size;
+        const next = { ...page, storedSize: pageFootprint(page, terms, related.get(page.url) ?? []) };
+        used += next.storedSize;
+        return next;
+      });
+      tx.objectStore(META_STORE).put(used, STORAGE_USAGE_KEY);
+    },
+  },
+];
+
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export class MigrationError extends Error {
+  constructor(public version: number, description: string, public reason: unknown) {
+    super(`Upgrading the knowledge base to version ${version} (${description}) failed: ${reason instanceof Error ? reason.message : String(reason)}`);
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * Rewrites every stored page in place, for migrations that backfill or reshape
+ * `StoredPage` fields. Returning null deletes the page.
+ */
+async function transformPages(tx: IDBTransaction, transform: (page: StoredPage) => StoredPage | null): Promise<void> {
+  const pages = await requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll());
+  const store = tx.objectStore(PAGES_STORE);
+  for (const page of pages) {
+    const next = transform(page);
+    if (next) store.put(next);
+    else store.delete(page.url);
+  }
+}
+
+// The active workspace's database, which each storage call is bound to when it starts.
+let dbName = DB_NAME;
+// Storage calls in progress, which a workspace switch waits for.
+const activeCalls = new Set<Promise<unknown>>();
+// Settles once the last requested switch is done; calls arriving meanwhile wait for it.
+let switching: Promise<void> = Promise.resolve();
+
+/** Every indexed term with its key in the index store and a surface word for suggestions. */
+type Vocabulary = Map<string, { key: string; word: string }>;
+
+interface UnlockedKeys {
+  keys: EncryptionKeys;
+  /** Encrypted index terms by plain term, reused for every entry that needs one. */
+  sealedTerms: Map<string, SealedData>;
+  vocabulary?: { generation: number; terms: Vocabulary };
+}
+
+// The selected database's keys once unlocked. Only this worker holds them; locking drops them.
+let unlocked: UnlockedKeys | null = null;
+// Bumped on every index write, so a cached vocabulary can tell it is stale.
+let indexGeneration = 0;
+
+/**
+ * Name of the database for a workspace. Without a scope it is the original database,
+ * which holds everything saved before workspaces existed.
+ */
+export function databaseName(scope?: string): string {
+  return scope ? `${DB_NAME}:${scope}` : DB_NAME;
+}
+
+/**
+ * Points later storage calls at another workspace's database, locking the one before.
+ * Waits for the calls already running, so none of them writes to the new database.
+ */
+export async function selectDatabase(name: string): Promise<void> {
+  const previous = switching;
+  let done = () => {};
+  switching = new Promise((resolve) => { done = resolve; });
+  try {
+    await previous;
+    await Promise.allSettled(activeCalls);
+    if (name !== dbName) unlocked = null;
+    dbName = name;
+  } finally {
+    done();
+  }
+}
+
+/**
+ * Wraps a storage function that takes the database as its first argument into a call
+ * on the selected database. The name is read once, when the call starts, and passed
+ * down to every transaction the call opens.
+ */
+export function onSelectedDatabase<A extends unknown[], R>(fn: (database: string, ...args: A) => Promise<R>): (...args: A) => Promise<R> {
+  return async (...args) => {
+    await switching;
+    const call = fn(dbName, ...args);
+    activeCalls.add(call);
+    try {
+      return await call;
+    } finally {
+      activeCalls.delete(call);
+    }
+  };
+}
+
+/** Deletes a workspace's database with everything in it. */
+export function deleteDatabase(name: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onupgradeneeded = () => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDB(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    let failure: MigrationError | null = null;
+    request.onupgradeneeded = (event) => {
       const db = request.result;
-      if (!db.objectStoreNames.contains(PAGES_STORE)) {
-        const store = db.createObjectStore(PAGES_STORE, { keyPath: "url" });
-        store.createIndex("domain", "domain", { unique: false });
-        store.createIndex("timestamp", "timestamp", { unique: false });
-      }
+      const tx = request.transaction!;
+      const pending = MIGRATIONS.filter((m) => m.version > event.oldVersion);
+      (async () => {
+        for (const migration of pending) {
+          try {
+            await migration.migrate(db, tx);
+          } catch (e) {
+            failure = new MigrationError(migration.version, migration.description, e);
+            throw failure;
+          }
+        }
+      })().catch(() => {
+        try { tx.abort(); } catch {}
+      });
     };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let another tab holding a newer schema upgrade without being blocked by us.
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(failure ?? request.error);
+  });
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 }
 
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Runs `fn` in one transaction on `database` and resolves once it has committed; any thrown error aborts it. */
+async function withTransaction<T>(
+  database: string,
+  stores: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T>
+): Promise<T> {
+  const db = await openDB(database);
+  const tx = db.transaction(stores, mode);
+  const done = transactionDone(tx);
+  try {
+    const result = await fn(tx);
+    await done;
+    return result;
+  } catch (e) {
+    done.catch(() => {});
+    try { tx.abort(); } catch {}
+    throw e;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Removes the postings of `removed` documents and adds those of `added` ones,
+ * touching only the terms either side contains. Must run inside a readwrite
+ * transaction over the index and meta stores. New entries for hashed terms take
+ * their encrypted term and word from `sealedTerms`.
+ */
+async function updateIndex(
+  tx: IDBTransaction,
+  removed: AnalyzedDocument[],
+  added: AnalyzedDocument[],
+  sealedTerms?: Map<string, SealedData>
+): Promise<void> {
+  if (!removed.length && !added.length) return;
+  indexGeneration++;
+  const index = tx.objectStore(INDEX_STORE);
+  const meta = tx.objectStore(META_STORE);
+  const touchedUrls = new Set([...removed, ...added].map((d) => d.url));
+  const terms = new Map<string, string>();
+  for (const doc of [...removed, ...added]) doc.terms.forEach(({ word }, term) => terms.set(term, word));
+
+  const [stats, entries] = await Promise.all([
+    requestToPromise<IndexStats | undefined>(meta.get(INDEX_STATS_KEY)),
+    Promise.all(Array.from(terms.keys()).map((term) => requestToPromise<IndexEntry | undefined>(index.get(term)))),
+  ]);
+
+  Array.from(terms).forEach(([term, word], i) => {
+    const postings = (entries[i]?.postings || []).filter((p) => !touchedUrls.has(p.url));
+    for (const doc of added) {
+      const posting = toPosting(doc, term);
+      if (posting) postings.push(posting);
+    }
+    const sealed = entries[i]?.sealed ?? sealedTerms?.get(term);
+    if (postings.length) index.put({ term, word: entries[i]?.word || word, postings, ...(sealed && { sealed }) } satisfies IndexEntry);
+    else index.delete(term);
+  });
+
+  const next = { ...EMPTY_STATS, ...stats };
+  for (const doc of removed) {
+    next.docCount--;
+    next.totalLength -= doc.length;
+    next.totalTitleLength -= doc.titleLength;
+  }
+  for (const doc of added) {
+    next.docCount++;
+    next.totalLength += doc.length;
+    next.totalTitleLength += doc.titleLength;
+  }
+  meta.put(next, INDEX_STATS_KEY);
+}
+
+function analyzePage(page: StoredPage): AnalyzedDocument {
+  return analyzeDocument(page.url, pageTitle(page), pageText(page));
+}
+
+function withFingerprint(page: StoredPage): StoredPage {
+  const fingerprint = isFailedPage(page) ? null : simhash(pageText(page));
+  if (fingerprint) page.fingerprint = fingerprint;
+  else delete page.fingerprint;
+  return page;
+}
+
+function toLinkRecord(page: StoredPage): LinkRecord {
+  return { url: page.url, domain: page.domain, links: extractLinks(page.content, page.url).filter((link) => link !== page.url) };
+}
+
+/** The document a stored page was indexed as, as `updateIndex` needs it to remove the page. */
+function indexedDocument(page: StoredPage): AnalyzedDocument {
+  if (!page.indexed) return analyzePage(page);
+  const { terms, length, titleLength } = page.indexed;
+  return { url: page.url, length, titleLength, terms: new Map(terms.map((term) => [term, { tf: 0, titleTf: 0, word: "" }])) };
+}
+
+// What encryption covers on a page: its content, everything extracted from it and its hashes.
+type SealedFields = Pick<
+  StoredPage,
+  "content" | "title" | "description" | "canonical" | "lang" | "headings" | "text" | "wordCount" | "passages" | "fingerprint" | "contentHash"
+>;
+
+/** What an encrypted page or version keeps in place of its content hash. */
+function contentTag(keys: EncryptionKeys, contentHash: string): Promise<string> {
+  return keyedHash(keys, `content:${contentHash}`);
+}
+
+/**
+ * Swaps the terms of analyzed documents for their keyed hashes, and encrypts each term
+ * with its word for the index entries that will hold it.
+ */
+async function blindDocuments(
+  state: UnlockedKeys,
+  docs: AnalyzedDocument[]
+): Promise<{ docs: AnalyzedDocument[]; sealedTerms: Map<string, SealedData> }> {
+  const words = new Map<string, string>();
+  for (const doc of docs) doc.terms.forEach(({ word }, term) => { if (!words.has(term)) words.set(term, word); });
+  const keyOf = new Map<string, string>();
+  const sealedTerms = new Map<string, SealedData>();
+  await Promise.all(Array.from(words).map(async ([term, word]) => {
+    const key = await blindTerm(state.keys, term);
+    let sealed = state.sealedTerms.get(term);
+    if (!sealed) state.sealedTerms.set(term, (sealed = await sealJson(state.keys, { term, word })));
+    keyOf.set(term, key);
+    sealedTerms.set(key, sealed);
+  }));
+  return {
+    docs: docs.map((doc) => ({ ...doc, terms: new Map(Array.from(doc.terms, ([term, value]) => [keyOf.get(term)!, { ...value, word: "" }])) })),
+    sealedTerms,
+  };
+}
+
+/** Encrypts a page's content, extracted fields and hashes, keeping the hashed terms of its document. */
+async function sealPage(keys: EncryptionKeys, page: StoredPage, doc: AnalyzedDocument): Promise<StoredPage> {
+  const { content, title, description, canonical, lang, headings, text, wordCount, passages, fingerprint, ...rest } = page;
+  const contentHash = page.contentHash ?? hashContent(content);
+  const fields: SealedFields = { content, title, description, canonical, lang, headings, text, wordCount, passages, fingerprint, contentHash };
+  return {
+    ...rest,
+    content: "",
+    contentHash: await contentTag(keys, contentHash),
+    sealed: await sealJson(keys, fields),
+    indexed: { terms: Array.from(doc.terms.keys()), length: doc.length, titleLength: doc.titleLength },
+  };
+}
+
+/**
+ * A stored page as callers see it, decrypted with `keys`, by default the unlocked ones.
+ * Throws `EncryptionLockedError` while locked.
+ */
+async function openPage<T extends StoredPage>(page: T, keys = unlocked?.keys): Promise<T> {
+  if (!page.sealed) return page;
+  if (!keys) throw new EncryptionLockedError();
+  const { sealed, indexed, ...rest } = page;
+  return { ...rest, ...(await openJson<SealedFields>(keys, sealed)) } as T;
+}
+
+function openPages<T extends StoredPage>(pages: T[], keys = unlocked?.keys): Promise<T[]> {
+  return Promise.all(pages.map((page) => openPage(page, keys)));
+}
+
+async function sealVersion(keys: EncryptionKeys, version: PageVersion): Promise<PageVersion> {
+  const { content, contentHash } = version;
+  const tag = await contentTag(keys, contentHash);
+  return { ...version, id: `${version.url}#${tag}`, content: "", contentHash: tag, sealed: await sealJson(keys, { content, contentHash }) };
+}
+
+async function openVersion(version: PageVersion, keys = unlocked?.keys): Promise<PageVersion> {
+  if (!version.sealed) return version;
+  if (!keys) throw new EncryptionLockedError();
+  const { sealed, ...rest } = version;
+  // Versions archived from an encrypted page hold the page's sealed fields, which include both.
+  const { content, contentHash } = await openJson<Pick<SealedFields, "content" | "contentHash">>(keys, sealed);
+  return { ...rest, id: `${version.url}#${contentHash}`, content, contentHash: contentHash! };
+}
+
+async function sealEmbeddings(keys: EncryptionKeys | null, records: EmbeddingRecord[]): Promise<EmbeddingRecord[]> {
+  if (!keys) return records;
+  return Promise.all(records.map(async ({ vector, ...record }) => ({
+    ...record,
+    sealed: await seal(keys, new Uint8Array(new Float32Array(vector!).buffer)),
+  })));
+}
+
+async function embeddingVector(record: EmbeddingRecord, keys = unlocked?.keys): Promise<Float32Array> {
+  if (!record.sealed) return record.vector!;
+  if (!keys) throw new EncryptionLockedError();
+  return new Float32Array((await open(keys, record.sealed)).buffer);
+}
+
+function getEncryptionRecord(database: string): Promise<EncryptionRecord | undefined> {
+  return withTransaction(database, [META_STORE], "readonly", (tx) =>
+    requestToPromise<EncryptionRecord | undefined>(tx.objectStore(META_STORE).get(ENCRYPTION_KEY))
+  );
+}
+
+/** The keys new data is encrypted with, or null when encryption is off. Throws `EncryptionLockedError` while locked. */
+async function encryptionKeys(database: string): Promise<EncryptionKeys | null> {
+  const record = await getEncryptionRecord(database);
+  if (!record) return null;
+  if (!unlocked || unlocked.keys.id !== record.id) throw new EncryptionLockedError();
+  return unlocked.keys;
+}
+
+/** Index store keys of search terms: the terms themselves, or their keyed hashes while encrypted. */
+function indexKeys(keys: EncryptionKeys | null, terms: string[]): Promise<string[]> {
+  return keys ? Promise.all(terms.map((term) => blindTerm(keys, term))) : Promise.resolve(terms);
+}
+
+/**
+ * Every indexed term, for fuzzy matching. While encrypted this decrypts every index
+ * entry, so the result is cached until this tab next writes to the index.
+ */
+async function getVocabulary(database: string, keys: EncryptionKeys | null): Promise<Vocabulary> {
+  if (!keys || !unlocked) {
+    const terms = await withTransaction(database, [INDEX_STORE], "readonly", (tx) => requestToPromise(tx.objectStore(INDEX_STORE).getAllKeys()));
+    return new Map((terms as string[]).map((term) => [term, { key: term, word: "" }]));
+  }
+  const state = unlocked;
+  if (state.vocabulary?.generation === indexGeneration) return state.vocabulary.terms;
+  const generation = indexGeneration;
+  const entries = await withTransaction(database, [INDEX_STORE], "readonly", (tx) =>
+    requestToPromise<IndexEntry[]>(tx.objectStore(INDEX_STORE).getAll())
+  );
+  const opened = await Promise.all(entries.map((entry) => (entry.sealed ? openJson<{ term: string; word: string }>(keys, entry.sealed) : null)));
+  const terms: Vocabulary = new Map();
+  opened.forEach((term, i) => { if (term) terms.set(term.term, { key: entries[i].term, word: term.word }); });
+  state.vocabulary = { generation, terms };
+  return terms;
+}
+
+async function embedPages(embedder: Embedder, pages: StoredPage[]): Promise<EmbeddingRecord[]> {
+  // Chunks never straddle passages, so a matching chunk points at one passage.
+  const chunks = pages.flatMap((page) => {
+    const text = pageText(page);
+    return pagePassages(page)
+      .flatMap((passage, index) => chunkText(text.slice(passage.start, passage.end)).map((chunk) => ({ passage: index, text: chunk })))
+      .map((chunk, i) => ({ url: page.url, chunk: i, ...chunk }));
+  });
+  if (!chunks.length) return [];
+  const vectors = await embedder.embed(chunks.map((c) => c.text));
+  return chunks.map(({ url, chunk, passage }, i) => ({
+    id: `${embedder.id}|${url}#${chunk}`, url, embedder: embedder.id, chunk, passage, vector: vectors[i],
+  }));
+}
+
+/**
+ * Stores more vectors for saved pages and counts them towards each page's size. Vectors
+ * of pages deleted since they were computed are dropped.
+ */
+async function addEmbeddings(tx: IDBTransaction, byUrl: Map<string, EmbeddingRecord[]>): Promise<void> {
+  const store = tx.objectStore(PAGES_STORE);
+  const embeddings = tx.objectStore(EMBEDDINGS_STORE);
+  const urls = Array.from(byUrl.keys());
+  const pages = await Promise.all(urls.map((url) => requestToPromise<StoredPage | undefined>(store.get(url))));
+  let added = 0;
+  pages.forEach((page, i) => {
+    if (!page) return;
+    const records = byUrl.get(urls[i])!;
+    for (const record of records) embeddings.put(record);
+    const bytes = storedBytes(records);
+    store.put({ ...page, storedSize: footprintOf(page) + bytes });
+    added += bytes;
+  });
+  await adjustUsage(tx, added);
+}
+
+/** Deletes the vectors of every embedder for the given pages. */
+async function deleteEmbeddings(tx: IDBTransaction, urls: string[]): Promise<void> {
+  const store = tx.objectStore(EMBEDDINGS_STORE);
+  const keys = await Promise.all(urls.map((url) => requestToPromise(store.index("url").getAllKeys(url))));
+  for (const key of keys.flat()) store.delete(key);
+}
+
+const utf8 = new TextEncoder();
+
+/** Roughly what a value takes once stored: strings as UTF-8, binary data as is, 8 bytes per number. */
+function storedBytes(value: unknown): number {
+  if (typeof value === "string") return utf8.encode(value).length;
+  if (typeof value === "number") return 8;
+  if (typeof value === "boolean") return 1;
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return value.byteLength;
+  if (Array.isArray(value)) return value.reduce((sum: number, item) => sum + storedBytes(item), 0);
+  if (value && typeof value === "object") {
+    return Object.entries(value).reduce((sum, [key, item]) => sum + key.length + storedBytes(item), 0);
+  }
+  return 0;
+}
+
+/**
+ * Bytes a page takes across the stores written for it: its record, one posting per
+ * indexed term, and its embeddings and link record in `related`. Index terms are shared
+ * between pages, so only the postings count.
+ */
+function pageFootprint(page: StoredPage, termCount: number, related: unknown[]): number {
+  const posting: Posting = { url: page.url, tf: 0, titleTf: 0, length: 0, titleLength: 0 };
+  return storedBytes(page) + termCount * storedBytes(posting) + storedBytes(related);
+}
+
+/** What a page counts for in storage usage; pages saved before `storedSize` counted their content. */
+function footprintOf(page: StoredPage): number {
+  return page.storedSize ?? page.contentSize;
+}
+
+function groupByUrl<T extends { url: string }>(records: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const record of records) groups.set(record.url, [...(groups.get(record.url) ?? []), record]);
+  return groups;
+}
+
+async function adjustUsage(tx: IDBTransaction, delta: number): Promise<void> {
+  const meta = tx.objectStore(META_STORE);
+  const used = (await requestToPromise<number | undefined>(meta.get(STORAGE_USAGE_KEY))) || 0;
+  meta.put(Math.max(0, used + delta), STORAGE_USAGE_KEY);
+}
+
+/** cyrb53: a fast 53-bit string hash, enough to tell page contents apart. */
+function hashContent(content: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Archives the current content of pages about to be overwritten, one version per
+ * distinct content hash, and prunes each page to `retention` versions. Returns the
+ * change in stored bytes.
+ */
+async function archiveVersions(tx: IDBTransaction, pages: StoredPage[], retention: number): Promise<number> {
+  const store = tx.objectStore(VERSIONS_STORE);
+  let delta = 0;
+  for (const page of pages) {
+    if (retention > 0) {
+      const version = toVersion(page);
+      // Re-archiving known content refreshes its timestamp so it is not pruned first.
+      const known = await requestToPromise<PageVersion | undefined>(store.get(version.id));
+      if (known) delta -= storedBytes(known);
+      store.put(version);
+      delta += storedBytes(version);
+    }
+    const versions = await requestToPromise<PageVersion[]>(store.index("url").getAll(page.url));
+    for (const stale of versions.sort((a, b) => b.timestamp - a.timestamp).slice(retention)) {
+      store.delete(stale.id);
+      delta -= storedBytes(stale);
+    }
+  }
+  return delta;
+}
+
+function toVersion(page: StoredPage): PageVersion {
+  const contentHash = page.contentHash ?? hashContent(page.content);
+  return {
+    id: `${page.url}#${contentHash}`, url: page.url, content: page.content, contentHash,
+    contentSize: page.contentSize, timestamp: page.timestamp, crawlId: page.crawlId,
+    // An encrypted page's sealed fields include its content, so they are kept as they are.
+    ...(page.sealed && { sealed: page.sealed }),
+  };
+}
+
+/** Deletes pages along with their postings, embeddings, versions, links and share of the usage counter. */
+async function removePages(tx: IDBTransaction, pages: StoredPage[]): Promise<void> {
+  if (!pages.length) return;
+  const store = tx.objectStore(PAGES_STORE);
+  const links = tx.objectStore(LINKS_STORE);
+  for (const page of pages) {
+    store.delete(page.url);
+    links.delete(page.url);
+  }
+  tx.objectStore(META_STORE).delete(PAGE_RANK_KEY);
+  tx.objectStore(META_STORE).delete(DUPLICATES_KEY);
+  await updateIndex(tx, pages.map(indexedDocument), []);
+  await deleteEmbeddings(tx, pages.map((p) => p.url));
+  const versions = tx.objectStore(VERSIONS_STORE);
+  let versionBytes = 0;
+  for (const page of pages) {
+    for (const version of await requestToPromise<PageVersion[]>(versions.index("url").getAll(page.url))) {
+      versions.delete(version.id);
+      versionBytes += storedBytes(version);
+    }
+  }
+  await adjustUsage(tx, -pages.reduce((sum, p) => sum + footprintOf(p), 0) - versionBytes);
+}
+
+/**
+ * Frees at least `needed` bytes according to the eviction policy, never touching
+ * pinned domains or the pages about to be written. Throws `StorageQuotaError` when
+ * the policy refuses or there is not enough to evict.
+ */
+async function evictPages(
+  tx: IDBTransaction,
+  needed: number,
+  settings: StorageSettings,
+  protectedUrls: Set<string>
+): Promise<string[]> {
+  if (settings.evictionPolicy === "refuse") {
+    throw new StorageQuotaError(`Storage is full: ${formatBytes(needed)} more space is needed for this crawl.`, needed);
+  }
+  const pinned = new Set(settings.pinnedDomains);
+  const age = settings.evictionPolicy === "least-recently-viewed"
+    ? (p: StoredPage) => p.lastViewed ?? p.timestamp
+    : (p: StoredPage) => p.timestamp;
+  const candidates = (await requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll()))
+    .filter((p) => !pinned.has(p.domain) && !protectedUrls.has(p.url))
+    .sort((a, b) => age(a) - age(b));
+  const victims: StoredPage[] = [];
+  let freed = 0;
+  for (const page of candidates) {
+    if (freed >= needed) break;
+    victims.push(page);
+    freed += footprintOf(page);
+  }
+  if (freed < needed) {
+    throw new StorageQuotaError(
+      `Storage is full: only ${formatBytes(freed)} of the ${formatBytes(needed)} needed can be evicted. Unpin a domain or clear data.`,
+      needed
+    );
+  }
+  await removePages(tx, victims);
+  return victims.map((p) => p.url);
+}
+
+async function estimateBrowserStorage(): Promise<{ usage: number; quota: number } | null> {
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    return estimate?.quota ? { usage: estimate.usage || 0, quota: estimate.quota } : null;
+  } catch {
+    return null;
+  }
+}
+
 function getDomain(url: string): string {
   try {
     return new URL(url.startsWith("http") ? url : `https://${url}`).hostname;
@@ -44,91 +1042,1084 @@ function getDomain(url: string): string {
   }
 }
 
+/** The record a streamed page is saved as, with its structured fields extracted. */
+export function toStoredPage(page: CrawledPage, crawlId?: string, timestamp = page.timestamp ?? Date.now()): StoredPage {
+  const content = page.content || "";
+  return withFingerprint({
+    ...extractContent(content, page.url),
+    url: page.url,
+    content,
+    error: page.error,
+    status: page.status,
+    domain: getDomain(page.url),
+    timestamp,
+    contentSize: new Blob([content]).size,
+    crawlId,
+    contentHash: hashContent(content),
+  });
+}
+
+/**
+ * Saves crawled pages, evicting older ones first when the batch would exceed
+ * `MAX_STORAGE_BYTES` or the browser's quota. Throws `StorageQuotaError` without
+ * writing anything when there is no room, and `EncryptionLockedError` while locked.
+ */
 export async function savePages(
-  pages: { url: string; content?: string; error?: string; status?: number }[]
-): Promise<void> {
-  if (!pages?.length) return;
-  const db = await openDB();
+  database: string,
+  pages: CrawledPage[],
+  options: { crawlId?: string; onProgress?: (progress: TaskProgress) => void } = {}
+): Promise<SaveResult> {
+  const result: SaveResult = { saved: 0, added: 0, changed: 0, evicted: [] };
+  if (!pages?.length) return result;
   const now = Date.now();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(PAGES_STORE, "readwrite");
+  const records = new Map<string, StoredPage>();
+  for (const page of pages) {
+    if (!page?.url) continue;
+    records.set(page.url, toStoredPage(page, options.crawlId, page.timestamp ?? now));
+  }
+  if (!records.size) return result;
+  const pageList = Array.from(records.values());
+  const report = (stage: string, done: number) => options.onProgress?.({ stage, done, total: pageList.length });
+  const keys = await encryptionKeys(database);
+  report("Embedding", 0);
+  const localEmbeddings = await sealEmbeddings(keys, await embedPages(localEmbedder, pageList));
+  const linkRecords = keys ? [] : pageList.filter((p) => !isFailedPage(p)).map(toLinkRecord);
+  report("Indexing", 0);
+  // WebCrypto cannot run inside an IndexedDB transaction, so pages are encrypted up front.
+  let docs = pageList.map(analyzePage);
+  let sealedTerms: Map<string, SealedData> | undefined;
+  if (keys && unlocked) {
+    ({ docs, sealedTerms } = await blindDocuments(unlocked, docs));
+    const sealed = await Promise.all(pageList.map((page, i) => sealPage(keys, page, docs[i])));
+    for (const page of sealed) records.set(page.url, page);
+  }
+  const related = groupByUrl<{ url: string }>([...localEmbeddings, ...linkRecords]);
+  pageList.forEach(({ url }, i) => {
+    const record = records.get(url)!;
+    record.storedSize = pageFootprint(record, docs[i].terms.size, related.get(url) ?? []);
+  });
+  const browser = await estimateBrowserStorage();
+  try {
+    await withTransaction(database, [PAGES_STORE, INDEX_STORE, META_STORE, EMBEDDINGS_STORE, VERSIONS_STORE, LINKS_STORE], "readwrite", async (tx) => {
+      const store = tx.objectStore(PAGES_STORE);
+      const meta = tx.objectStore(META_STORE);
+      const [previous, used, settings, encryption] = await Promise.all([
+        Promise.all(Array.from(records.keys()).map((url) => requestToPromise<StoredPage | undefined>(store.get(url)))),
+        requestToPromise<number | undefined>(meta.get(STORAGE_USAGE_KEY)),
+        requestToPromise<StorageSettings | undefined>(meta.get(STORAGE_SETTINGS_KEY)),
+        requestToPromise<EncryptionRecord | undefined>(meta.get(ENCRYPTION_KEY)),
+      ]);
+      // Another tab may have turned encryption on or off since the pages were prepared.
+      if (encryption?.id !== keys?.id) throw new EncryptionLockedError("Encryption was turned on or off in another tab. Reload to continue.");
+      if (encryption?.migrating) throw new EncryptionLockedError("Pages cannot be saved until encryption has finished being turned on or off.");
+      const { versionRetention, ...policy } = { ...DEFAULT_STORAGE_SETTINGS, ...settings };
+      const existing = previous.filter((p): p is StoredPage => !!p);
+      result.added = records.size - existing.length;
+      result.changed = existing.filter((p) => (p.contentHash ?? hashContent(p.content)) !== records.get(p.url)!.contentHash).length;
+      // Error pages are not worth keeping as history.
+      const changed = existing.filter((p) => !isFailedPage(p) && (p.contentHash ?? hashContent(p.content)) !== records.get(p.url)!.contentHash);
+      let delta = -existing.reduce((sum, p) => sum + footprintOf(p), 0);
+      records.forEach((record) => { delta += record.storedSize!; });
+      // Worst case: every changed page adds a version before pruning frees older ones.
+      const growth = delta + (versionRetention > 0 ? changed.reduce((sum, p) => sum + storedBytes(toVersion(p)), 0) : 0);
+      const needed = Math.max(
+        (used || 0) + growth - MAX_STORAGE_BYTES,
+        browser ? browser.usage + growth - browser.quota : 0,
+      );
+      if (needed > 0) {
+        result.evicted = await evictPages(tx, needed, { ...policy, versionRetention }, new Set(records.keys()));
+      }
+
+      for (const page of existing) records.get(page.url)!.lastViewed = page.lastViewed;
+      records.forEach((record) => store.put(record));
+      const links = tx.objectStore(LINKS_STORE);
+      records.forEach((record) => links.delete(record.url));
+      for (const record of linkRecords) links.put(record);
+      meta.delete(PAGE_RANK_KEY);
+      meta.delete(DUPLICATES_KEY);
+      await updateIndex(tx, existing.map(indexedDocument), docs, sealedTerms);
+      await deleteEmbeddings(tx, Array.from(records.keys()));
+      const embeddings = tx.objectStore(EMBEDDINGS_STORE);
+      for (const record of localEmbeddings) embeddings.put(record);
+      await adjustUsage(tx, delta + (await archiveVersions(tx, changed, versionRetention)));
+    });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "QuotaExceededError") {
+      throw new StorageQuotaError("The browser refused to store more data for this site.", 0);
+    }
+    throw e;
+  }
+  result.saved = records.size;
+  report("Indexing", records.size);
+
+  const remote = await getRemoteEmbedder(database);
+  if (!remote) return result;
+  report("Embedding remotely", 0);
+  try {
+    const remoteEmbeddings = groupByUrl(await sealEmbeddings(keys, await embedPages(remote, pageList)));
+    await withTransaction(database, [PAGES_STORE, EMBEDDINGS_STORE, META_STORE], "readwrite", async (tx) => {
+      await addEmbeddings(tx, remoteEmbeddings);
+    });
+  } catch (e) {
+    // The pages are saved and still searchable semantically through the local embedder.
+    result.embeddingError = e instanceof Error ? e.message : String(e);
+  }
+  report("Embedding remotely", records.size);
+  return result;
+}
+
+// Imports are saved in batches of this many pages so progress can be reported.
+const IMPORT_BATCH_SIZE = 100;
+
+/** Splits imported pages into the ones to save and counts, per the conflict policy. */
+async function resolveImport(database: string, pages: CrawledPage[], conflict: ImportConflictPolicy): Promise<{ plan: ImportPlan; pages: CrawledPage[] }> {
+  const unique = Array.from(new Map(pages.map((page) => [page.url, page])).values());
+  const existing = await withTransaction(database, [PAGES_STORE], "readonly", (tx) => {
     const store = tx.objectStore(PAGES_STORE);
-    for (const page of pages) {
-      if (!page?.url) continue;
-      const content = page.content || "";
-      store.put({
-        url: page.url,
-        content,
-        error: page.error,
-        status: page.status,
-        domain: getDomain(page.url),
-        timestamp: now,
-        contentSize: new Blob([content]).size,
-      } satisfies StoredPage);
+    return Promise.all(unique.map((page) => requestToPromise<StoredPage | undefined>(store.get(page.url))));
+  });
+  const plan: ImportPlan = { total: unique.length, added: 0, replaced: 0, skipped: 0 };
+  const accepted = unique.filter((page, i) => {
+    const saved = existing[i];
+    if (!saved) {
+      plan.added++;
+      return true;
     }
-    tx.oncomplete = () => { db.close(); resolve(); };
-    tx.onerror = () => { db.close(); reject(tx.error); };
+    if (conflict === "overwrite" || (conflict === "newer" && (page.timestamp ?? 0) > saved.timestamp)) {
+      plan.replaced++;
+      return true;
+    }
+    plan.skipped++;
+    return false;
   });
+  return { plan, pages: accepted };
 }
 
-export async function getPagesByDomain(domain: string): Promise<StoredPage[]> {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
+/** What `importPages` would do with these pages, without writing anything. */
+export async function planImport(database: string, pages: CrawledPage[], conflict: ImportConflictPolicy): Promise<ImportPlan> {
+  return (await resolveImport(database, pages, conflict)).plan;
+}
+
+/**
+ * Saves imported pages through `savePages`, in batches, skipping or replacing pages
+ * that are already saved per `conflict`.
+ */
+export async function importPages(
+  database: string,
+  pages: CrawledPage[],
+  options: { conflict: ImportConflictPolicy; onProgress?: (progress: TaskProgress) => void }
+): Promise<ImportPlan & Pick<SaveResult, "evicted" | "embeddingError">> {
+  const { plan, pages: accepted } = await resolveImport(database, pages, options.conflict);
+  const evicted: string[] = [];
+  let embeddingError: string | undefined;
+  options.onProgress?.({ stage: "Importing", done: 0, total: accepted.length });
+  for (let i = 0; i < accepted.length; i += IMPORT_BATCH_SIZE) {
+    const batch = accepted.slice(i, i + IMPORT_BATCH_SIZE);
+    const saved = await savePages(database, batch);
+    evicted.push(...saved.evicted);
+    embeddingError ??= saved.embeddingError;
+    options.onProgress?.({ stage: "Importing", done: i + batch.length, total: accepted.length });
+  }
+  return { ...plan, evicted, ...(embeddingError && { embeddingError }) };
+}
+
+/** Earlier versions of a page, newest first. The current content is not included. */
+export async function getPageVersions(database: string, url: string): Promise<PageVersion[]> {
+  const versions = await withTransaction(database, [VERSIONS_STORE], "readonly", (tx) =>
+    requestToPromise<PageVersion[]>(tx.objectStore(VERSIONS_STORE).index("url").getAll(url))
+  );
+  return Promise.all(versions.sort((a, b) => b.timestamp - a.timestamp).map((version) => openVersion(version)));
+}
+
+export async function markPageViewed(database: string, url: string): Promise<void> {
+  await withTransaction(database, [PAGES_STORE], "readwrite", async (tx) => {
+    const store = tx.objectStore(PAGES_STORE);
+    const page = await requestToPromise<StoredPage | undefined>(store.get(url));
+    if (page) store.put({ ...page, lastViewed: Date.now() });
+  });
+}
+
+export async function getStorageSettings(database: string): Promise<StorageSettings> {
+  return withTransaction(database, [META_STORE], "readonly", async (tx) => {
+    const settings = await requestToPromise<StorageSettings | undefined>(tx.objectStore(META_STORE).get(STORAGE_SETTINGS_KEY));
+    return { ...DEFAULT_STORAGE_SETTINGS, ...settings };
+  });
+}
+
+export async function updateStorageSettings(database: string, changes: Partial<StorageSettings>): Promise<StorageSettings> {
+  return withTransaction(database, [META_STORE], "readwrite", async (tx) => {
+    const meta = tx.objectStore(META_STORE);
+    const current = await requestToPromise<StorageSettings | undefined>(meta.get(STORAGE_SETTINGS_KEY));
+    const next = { ...DEFAULT_STORAGE_SETTINGS, ...current, ...changes };
+    meta.put(next, STORAGE_SETTINGS_KEY);
+    return next;
+  });
+}
+
+/** The embedding endpoint this workspace uses alongside the local embedder, if any. */
+export async function getEmbeddingSettings(database: string): Promise<EmbeddingSettings | null> {
+  return withTransaction(database, [META_STORE], "readonly", async (tx) => {
+    const settings = await requestToPromise<EmbeddingSettings | undefined>(tx.objectStore(META_STORE).get(EMBEDDING_SETTINGS_KEY));
+    return settings?.endpoint ? settings : null;
+  });
+}
+
+export async function saveEmbeddingSettings(database: string, settings: EmbeddingSettings | null): Promise<void> {
+  await withTransaction(database, [META_STORE], "readwrite", async (tx) => {
+    const meta = tx.objectStore(META_STORE);
+    if (settings?.endpoint) meta.put(settings, EMBEDDING_SETTINGS_KEY);
+    else meta.delete(EMBEDDING_SETTINGS_KEY);
+  });
+}
+
+async function getRemoteEmbedder(database: string): Promise<Embedder | null> {
+  const settings = await getEmbeddingSettings(database);
+  return settings ? createHttpEmbedder(settings) : null;
+}
+
+export async function setDomainPinned(database: string, domain: string, pinned: boolean): Promise<void> {
+  const { pinnedDomains } = await getStorageSettings(database);
+  const next = pinnedDomains.filter((d) => d !== domain);
+  await updateStorageSettings(database, { pinnedDomains: pinned ? [...next, domain] : next });
+}
+
+const SCHEDULE_INTERVALS: Record<ScheduleInterval, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Sets or, with null, removes a domain's re-crawl schedule. The first run is one interval away. */
+export async function setDomainSchedule(
+  database: string,
+  domain: string,
+  schedule: { interval: ScheduleInterval; maxPages: number } | null
+): Promise<void> {
+  await withTransaction(database, [META_STORE], "readwrite", async (tx) => {
+    const meta = tx.objectStore(META_STORE);
+    const schedules = (await requestToPromise<Record<string, DomainSchedule> | undefined>(meta.get(SCHEDULES_KEY))) || {};
+    if (schedule) {
+      const previous = schedules[domain];
+      const from = previous?.lastRunAt ?? Date.now();
+      schedules[domain] = { ...previous, domain, ...schedule, nextRunAt: from + SCHEDULE_INTERVALS[schedule.interval] };
+    } else {
+      delete schedules[domain];
+    }
+    meta.put(schedules, SCHEDULES_KEY);
+  });
+}
+
+/**
+ * Claims the most overdue schedule by moving its next run one interval ahead and
+ * returns it, or null when nothing is due. The read and write share a transaction,
+ * so when several tabs are open only one of them starts each run.
+ */
+export async function claimDueSchedule(database: string, now = Date.now()): Promise<DomainSchedule | null> {
+  return withTransaction(database, [META_STORE], "readwrite", async (tx) => {
+    const meta = tx.objectStore(META_STORE);
+    const schedules = (await requestToPromise<Record<string, DomainSchedule> | undefined>(meta.get(SCHEDULES_KEY))) || {};
+    const [due] = Object.values(schedules).filter((s) => s.nextRunAt <= now).sort((a, b) => a.nextRunAt - b.nextRunAt);
+    if (!due) return null;
+    schedules[due.domain] = { ...due, lastRunAt: now, nextRunAt: now + SCHEDULE_INTERVALS[due.interval] };
+    meta.put(schedules, SCHEDULES_KEY);
+    return due;
+  });
+}
+
+/**
+ * URLs of a domain's saved pages that the given crawl did not return, which may be gone
+ * from the site. Pinned domains have none.
+ */
+export async function findStalePages(database: string, domain: string, crawlId: string): Promise<string[]> {
+  return withTransaction(database, [PAGES_STORE, META_STORE], "readonly", async (tx) => {
+    const [pages, settings] = await Promise.all([
+      requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).index("domain").getAll(domain)),
+      requestToPromise<StorageSettings | undefined>(tx.objectStore(META_STORE).get(STORAGE_SETTINGS_KEY)),
+    ]);
+    if (settings?.pinnedDomains.includes(domain)) return [];
+    return pages.filter((p) => p.crawlId !== crawlId).map((p) => p.url).sort();
+  });
+}
+
+/**
+ * Deletes the stale pages a crawl recorded, once the user confirmed it, except those
+ * saved again since the crawl started. Returns how many were removed.
+ */
+export async function removeStalePages(database: string, crawlId: string): Promise<number> {
+  return withTransaction(database, [PAGES_STORE, INDEX_STORE, META_STORE, EMBEDDINGS_STORE, VERSIONS_STORE, LINKS_STORE, CRAWLS_STORE], "readwrite", async (tx) => {
+    const crawls = tx.objectStore(CRAWLS_STORE);
+    const crawl = await requestToPromise<CrawlRecord | undefined>(crawls.get(crawlId));
+    if (!crawl?.stale?.length) return 0;
+    const store = tx.objectStore(PAGES_STORE);
+    const pages = await Promise.all(crawl.stale.map((url) => requestToPromise<StoredPage | undefined>(store.get(url))));
+    const stale = pages.filter((p): p is StoredPage => !!p && p.crawlId !== crawlId && p.timestamp < crawl.startedAt);
+    await removePages(tx, stale);
+    const changes = { added: 0, changed: 0, removed: 0, ...crawl.changes };
+    crawls.put({ ...crawl, stale: undefined, changes: { ...changes, removed: changes.removed + stale.length } } satisfies CrawlRecord);
+    return stale.length;
+  });
+}
+
+export async function getStorageUsage(database: string): Promise<StorageUsage> {
+  const used = await withTransaction(database, [META_STORE], "readonly", (tx) =>
+    requestToPromise<number | undefined>(tx.objectStore(META_STORE).get(STORAGE_USAGE_KEY))
+  );
+  const browser = await estimateBrowserStorage();
+  return { used: used || 0, limit: MAX_STORAGE_BYTES, browserUsage: browser?.usage, browserQuota: browser?.quota };
+}
+
+export function isFailedPage(page: { error?: string; status?: number }): boolean {
+  return !!page.error || (page.status != null && (page.status < 200 || page.status >= 300));
+}
+
+/** Every stored page that came back with an error or a non-2xx status, newest first. */
+export async function getFailedPages(database: string): Promise<StoredPage[]> {
+  const pages = await withTransaction(database, [PAGES_STORE], "readonly", (tx) =>
+    requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll())
+  );
+  return openPages(pages.filter(isFailedPage).sort((a, b) => b.timestamp - a.timestamp));
+}
+
+export function createCrawlId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function saveCrawl(database: string, record: CrawlRecord): Promise<void> {
+  await withTransaction(database, [CRAWLS_STORE], "readwrite", async (tx) => {
+    tx.objectStore(CRAWLS_STORE).put(record);
+  });
+}
+
+export async function getCrawls(database: string): Promise<CrawlRecord[]> {
+  const crawls = await withTransaction(database, [CRAWLS_STORE], "readonly", (tx) =>
+    requestToPromise<CrawlRecord[]>(tx.objectStore(CRAWLS_STORE).getAll())
+  );
+  return crawls.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getPagesByCrawl(database: string, crawlId: string): Promise<StoredPage[]> {
+  const pages = await withTransaction(database, [PAGES_STORE], "readonly", (tx) =>
+    requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).index("crawlId").getAll(crawlId))
+  );
+  return openPages(pages);
+}
+
+/**
+ * Holds a Web Lock named after the crawl for as long as this tab runs it, so other
+ * tabs (and this one after a reload) can tell a live crawl from an abandoned one.
+ * Returns a function that releases the lock.
+ */
+export function holdCrawlLock(crawlId: string): () => void {
+  if (typeof navigator === "undefined" || !navigator.locks) return () => {};
+  let release = () => {};
+  const held = new Promise<void>((resolve) => { release = resolve; });
+  navigator.locks.request(CRAWL_LOCK_PREFIX + crawlId, () => held).catch(console.error);
+  return release;
+}
+
+/** Marks "running" crawls that no tab holds a lock for as partial and returns them. */
+export async function recoverInterruptedCrawls(database: string): Promise<CrawlRecord[]> {
+  const locks = typeof navigator !== "undefined" && navigator.locks ? await navigator.locks.query() : null;
+  const live = new Set((locks?.held || []).map((lock) => lock.name));
+  return withTransaction(database, [CRAWLS_STORE], "readwrite", async (tx) => {
+    const store = tx.objectStore(CRAWLS_STORE);
+    const crawls = await requestToPromise<CrawlRecord[]>(store.getAll());
+    const interrupted = crawls
+      .filter((c) => c.status === "running" && !live.has(CRAWL_LOCK_PREFIX + c.id))
+      .map((c): CrawlRecord => ({
+        ...c,
+        status: "partial",
+        finishedAt: c.updatedAt ?? c.startedAt,
+        error: c.error ?? "Interrupted before the crawl finished",
+      }));
+    for (const crawl of interrupted) store.put(crawl);
+    return interrupted;
+  });
+}
+
+/**
+ * URLs a partial crawl has yet to fetch: its start URLs when nothing was saved, otherwise
+ * same-site links found in its saved pages that it never fetched, up to the remaining limit.
+ */
+export async function getMissingUrls(database: string, crawl: CrawlRecord): Promise<string[]> {
+  const pages = await getPagesByCrawl(database, crawl.id);
+  if (!pages.length) return crawl.urls;
+  const seen = new Set(pages.map((p) => p.url));
+  const sites = new Set(crawl.urls.map(getDomain));
+  const missing = new Set<string>();
+  for (const page of pages) {
+    for (const link of extractLinks(page.content, page.url)) {
+      if (!seen.has(link) && sites.has(getDomain(link))) missing.add(link);
+    }
+  }
+  return Array.from(missing).slice(0, Math.max(0, crawl.config.limit - pages.length));
+}
+
+/** Deletes a crawl run and the pages it saved that no later crawl has overwritten. */
+export async function deleteCrawl(database: string, crawlId: string): Promise<void> {
+  await withTransaction(database, [PAGES_STORE, INDEX_STORE, META_STORE, EMBEDDINGS_STORE, VERSIONS_STORE, LINKS_STORE, CRAWLS_STORE], "readwrite", async (tx) => {
+    const pages = await requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).index("crawlId").getAll(crawlId));
+    await removePages(tx, pages);
+    tx.objectStore(CRAWLS_STORE).delete(crawlId);
+  });
+}
+
+export async function getPagesByDomain(database: string, domain: string): Promise<StoredPage[]> {
+  const db = await openDB(database);
+  const pages = await new Promise<StoredPage[]>((resolve, reject) => {
     const tx = db.transaction(PAGES_STORE, "readonly");
     const index = tx.objectStore(PAGES_STORE).index("domain");
     const request = index.getAll(domain);
     request.onsuccess = () => { db.close(); resolve(request.result); };
     request.onerror = () => { db.close(); reject(request.error); };
   });
+  return openPages(pages);
 }
 
-export async function getSavedDomains(): Promise<DomainInfo[]> {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(PAGES_STORE, "readonly");
-    const request = tx.objectStore(PAGES_STORE).getAll();
-    request.onsuccess = () => {
-      db.close();
-      const pages = request.result as StoredPage[];
-      const domainMap = new Map<string, DomainInfo>();
-      for (const page of pages) {
-        const info = domainMap.get(page.domain) || {
-          domain: page.domain, pageCount: 0, totalSize: 0, lastCrawled: 0,
-        };
-        info.pageCount++;
-        info.totalSize += page.contentSize;
-        info.lastCrawled = Math.max(info.lastCrawled, page.timestamp);
-        domainMap.set(page.domain, info);
-      }
-      resolve(Array.from(domainMap.values()).sort((a, b) => b.lastCrawled - a.lastCrawled));
+export async function getPage(database: string, url: string): Promise<StoredPage | undefined> {
+  const page = await withTransaction(database, [PAGES_STORE], "readonly", (tx) => requestToPromise<StoredPage | undefined>(tx.objectStore(PAGES_STORE).get(url)));
+  return page && openPage(page);
+}
+
+/**
+ * Link records of a domain's saved pages, or of all of them. While encrypted the links
+ * store is empty, so they are extracted from the decrypted pages instead.
+ */
+async function getLinkRecords(database: string, domain?: string): Promise<LinkRecord[]> {
+  const keys = await encryptionKeys(database);
+  const storeName = keys ? PAGES_STORE : LINKS_STORE;
+  const records = await withTransaction(database, [storeName], "readonly", (tx) => {
+    const store = tx.objectStore(storeName);
+    return requestToPromise<(LinkRecord | StoredPage)[]>(domain ? store.index("domain").getAll(domain) : store.getAll());
+  });
+  if (!keys) return records as LinkRecord[];
+  return (await openPages(records as StoredPage[], keys)).filter((p) => !isFailedPage(p)).map(toLinkRecord);
+}
+
+export async function getPageLinks(database: string, url: string): Promise<PageLinks> {
+  if (await encryptionKeys(database)) {
+    // Without the links store, backlinks can only be found among the page's own site.
+    const records = await getLinkRecords(database, getDomain(url));
+    const targets = records.find((r) => r.url === url)?.links ?? [];
+    const saved = await withTransaction(database, [PAGES_STORE], "readonly", (tx) =>
+      Promise.all(targets.map((link) => requestToPromise(tx.objectStore(PAGES_STORE).getKey(link))))
+    );
+    return {
+      outlinks: targets.map((link, i) => ({ url: link, saved: saved[i] !== undefined })),
+      backlinks: records.filter((r) => r.url !== url && r.links.includes(url)).map((r) => r.url),
+    };
+  }
+  return withTransaction(database, [PAGES_STORE, LINKS_STORE], "readonly", async (tx) => {
+    const links = tx.objectStore(LINKS_STORE);
+    const [record, linkedFrom] = await Promise.all([
+      requestToPromise<LinkRecord | undefined>(links.get(url)),
+      requestToPromise<LinkRecord[]>(links.index("links").getAll(url)),
+    ]);
+    const targets = record?.links ?? [];
+    const saved = await Promise.all(targets.map((link) => requestToPromise(tx.objectStore(PAGES_STORE).getKey(link))));
+    return {
+      outlinks: targets.map((link, i) => ({ url: link, saved: saved[i] !== undefined })),
+      backlinks: linkedFrom.map((r) => r.url).filter((from) => from !== url),
     };
-    request.onerror = () => { db.close(); reject(request.error); };
   });
 }
 
-export async function clearDomain(domain: string): Promise<void> {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(PAGES_STORE, "readwrite");
+/** Saved pages of a domain that no other saved page of the same domain links to. */
+export async function getOrphanPages(database: string, domain: string): Promise<StoredPage[]> {
+  const [pages, records] = await Promise.all([getPagesByDomain(database, domain), getLinkRecords(database, domain)]);
+  const linked = new Set(records.flatMap((r) => r.links.filter((link) => link !== r.url)));
+  return pages.filter((p) => !isFailedPage(p) && !linked.has(p.url));
+}
+
+/**
+ * PageRank of every saved page over links between pages of the same domain, computed
+ * on first use after the graph changes and cached until the next change.
+ */
+async function getAuthority(database: string): Promise<Map<string, number>> {
+  const cached = await withTransaction(database, [META_STORE], "readonly", (tx) =>
+    requestToPromise<Record<string, number> | undefined>(tx.objectStore(META_STORE).get(PAGE_RANK_KEY))
+  );
+  if (cached) return new Map(Object.entries(cached));
+  const generation = indexGeneration;
+  const graphs = new Map<string, Map<string, string[]>>();
+  for (const record of await getLinkRecords(database)) {
+    if (!graphs.has(record.domain)) graphs.set(record.domain, new Map());
+    graphs.get(record.domain)!.set(record.url, record.links);
+  }
+  const ranks = new Map(Array.from(graphs.values()).flatMap((graph) => Array.from(computePageRank(graph))));
+  // Pages saved meanwhile have already cleared the cache; this result would be stale.
+  if (generation === indexGeneration) {
+    await withTransaction(database, [META_STORE], "readwrite", async (tx) => { tx.objectStore(META_STORE).put(Object.fromEntries(ranks), PAGE_RANK_KEY); });
+  }
+  return ranks;
+}
+
+/**
+ * Groups of saved pages whose fingerprints are near-identical, across all domains.
+ * Reads only the fingerprint index, and caches the result until pages change. Encrypted
+ * pages keep their fingerprint sealed, so while encrypted they are decrypted instead.
+ */
+async function getClusters(database: string): Promise<string[][]> {
+  const keys = await encryptionKeys(database);
+  if (keys) {
+    const cached = await withTransaction(database, [META_STORE], "readonly", (tx) =>
+      requestToPromise<string[][] | undefined>(tx.objectStore(META_STORE).get(DUPLICATES_KEY))
+    );
+    if (cached) return cached;
+    const generation = indexGeneration;
+    const pages = await withTransaction(database, [PAGES_STORE], "readonly", (tx) => requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll()));
+    const opened = await openPages(pages, keys);
+    const clusters = clusterFingerprints(opened.flatMap((p): [string, string][] => (p.fingerprint ? [[p.url, p.fingerprint]] : [])));
+    if (generation === indexGeneration) {
+      await withTransaction(database, [META_STORE], "readwrite", async (tx) => { tx.objectStore(META_STORE).put(clusters, DUPLICATES_KEY); });
+    }
+    return clusters;
+  }
+  return withTransaction(database, [PAGES_STORE, META_STORE], "readwrite", async (tx) => {
+    const meta = tx.objectStore(META_STORE);
+    const cached = await requestToPromise<string[][] | undefined>(meta.get(DUPLICATES_KEY));
+    if (cached) return cached;
+    const fingerprints = await new Promise<[string, string][]>((resolve, reject) => {
+      const entries: [string, string][] = [];
+      const request = tx.objectStore(PAGES_STORE).index("fingerprint").openKeyCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve(entries);
+        entries.push([cursor.primaryKey as string, cursor.key as string]);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    const clusters = clusterFingerprints(fingerprints);
+    meta.put(clusters, DUPLICATES_KEY);
+    return clusters;
+  });
+}
+
+/** Near-duplicate clusters, largest first, for reviewing and deleting copies. */
+export async function getDuplicateClusters(database: string): Promise<StoredPage[][]> {
+  const clusters = await getClusters(database);
+  const pages = await getPages(database, clusters.flat());
+  const byUrl = new Map(pages.flatMap((page) => (page ? [[page.url, page] as const] : [])));
+  return clusters
+    .map((cluster) => cluster.flatMap((url) => byUrl.get(url) ?? []))
+    .filter((cluster) => cluster.length > 1)
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Keeps the best-ranked result of each near-duplicate cluster and lists the rest of
+ * the cluster on it as `similar`. Other passages of the kept page stay.
+ */
+async function collapseDuplicates(database: string, results: SearchResult[]): Promise<SearchResult[]> {
+  if (results.length < 2) return results;
+  const clusterOf = new Map((await getClusters(database)).flatMap((cluster) => cluster.map((url) => [url, cluster] as const)));
+  const kept = new Map<string[], string>();
+  return results.flatMap((result) => {
+    const cluster = clusterOf.get(result.url);
+    if (!cluster) return [result];
+    if (!kept.has(cluster)) kept.set(cluster, result.url);
+    if (kept.get(cluster) !== result.url) return [];
+    return [{ ...result, similar: cluster.filter((url) => url !== result.url) }];
+  });
+}
+
+/** Deletes pages by URL, e.g. duplicates picked in the cleanup view. Returns how many were removed. */
+export async function deletePages(database: string, urls: string[]): Promise<number> {
+  return withTransaction(database, [PAGES_STORE, INDEX_STORE, META_STORE, EMBEDDINGS_STORE, VERSIONS_STORE, LINKS_STORE], "readwrite", async (tx) => {
     const store = tx.objectStore(PAGES_STORE);
-    const index = store.index("domain");
-    const request = index.openCursor(domain);
+    const pages = await Promise.all(urls.map((url) => requestToPromise<StoredPage | undefined>(store.get(url))));
+    const existing = pages.filter((p): p is StoredPage => !!p);
+    await removePages(tx, existing);
+    return existing.length;
+  });
+}
+
+export async function getSavedDomains(database: string): Promise<DomainInfo[]> {
+  return withTransaction(database, [PAGES_STORE, META_STORE], "readonly", async (tx) => {
+    const [pages, settings, schedules] = await Promise.all([
+      requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll()),
+      requestToPromise<StorageSettings | undefined>(tx.objectStore(META_STORE).get(STORAGE_SETTINGS_KEY)),
+      requestToPromise<Record<string, DomainSchedule> | undefined>(tx.objectStore(META_STORE).get(SCHEDULES_KEY)),
+    ]);
+    const pinned = new Set(settings?.pinnedDomains);
+    const domainMap = new Map<string, DomainInfo>();
+    for (const page of pages) {
+      const info = domainMap.get(page.domain) || {
+        domain: page.domain, pageCount: 0, totalSize: 0, lastCrawled: 0, pinned: pinned.has(page.domain),
+        schedule: schedules?.[page.domain],
+      };
+      info.pageCount++;
+      info.totalSize += page.contentSize;
+      info.lastCrawled = Math.max(info.lastCrawled, page.timestamp);
+      domainMap.set(page.domain, info);
+    }
+    return Array.from(domainMap.values()).sort((a, b) => b.lastCrawled - a.lastCrawled);
+  });
+}
+
+/**
+ * Splits a page hit into its best passages, ranked by BM25 over the page's own
+ * passages with heading paths as titles. The best passage keeps the page score and
+ * the others are scaled down from it.
+ */
+function passageResults(page: StoredPage, score: number, terms: string[], weights: Map<string, number>): SearchResult[] {
+  const passages = pagePassages(page);
+  const hit = (index: number, score: number): SearchResult => ({ ...page, score, passage: { ...passages[index], index } });
+  if (!passages.length) return [{ ...page, score }];
+  if (!terms.length || passages.length === 1) return [hit(0, score)];
+  const text = pageText(page);
+  const docs = passages.map((p, i) => analyzeDocument(String(i), p.path.join(" "), text.slice(p.start, p.end)));
+  const postingsByTerm = new Map(terms.map((term) => [term, docs.flatMap((doc) => toPosting(doc, term) ?? [])]));
+  const stats = docs.reduce(
+    (sum, doc) => ({ docCount: sum.docCount + 1, totalLength: sum.totalLength + doc.length, totalTitleLength: sum.totalTitleLength + doc.titleLength }),
+    EMPTY_STATS
+  );
+  const ranked = Array.from(scoreBM25(postingsByTerm, stats, weights)).sort((a, b) => b[1] - a[1]).slice(0, PASSAGES_PER_PAGE);
+  if (!ranked.length) return [hit(0, score)];
+  return ranked.map(([index, passageScore]) => hit(Number(index), (score * passageScore) / ranked[0][1]));
+}
+
+function getEntries(index: IDBObjectStore, terms: string[]): Promise<(IndexEntry | undefined)[]> {
+  return Promise.all(terms.map((term) => requestToPromise<IndexEntry | undefined>(index.get(term))));
+}
+
+/**
+ * Runs a query in the syntax of `parseQuery` and returns the best matches by BM25
+ * score, lifted by each page's PageRank within its site, with near-duplicates
+ * collapsed. Terms missing from the index also match their closest spellings in it,
+ * at a lower weight. Throws `QueryParseError` for malformed queries.
+ */
+export async function searchPages(database: string, query: string, limit = 50): Promise<SearchResult[]> {
+  const ast = parseQuery(query);
+  const terms = Array.from(new Set(positiveTerms(ast).flatMap(tokenize)));
+  // Failed fetches only show up when the query asks for them with status:.
+  const includeFailed = mentionsStatus(ast);
+  const matches = (page: StoredPage, expansions: TermExpansions) =>
+    (includeFailed || !isFailedPage(page)) && matchesQuery(ast, page, expansions);
+  const keys = await encryptionKeys(database);
+  const authority = terms.length ? await getAuthority(database) : new Map<string, number>();
+  const termKeys = await indexKeys(keys, terms);
+  const [stats, entries] = await withTransaction(database, [INDEX_STORE, META_STORE], "readonly", (tx) => Promise.all([
+    requestToPromise<IndexStats | undefined>(tx.objectStore(META_STORE).get(INDEX_STATS_KEY)),
+    getEntries(tx.objectStore(INDEX_STORE), termKeys),
+  ]));
+  const postingsByTerm = new Map<string, Posting[]>();
+  entries.forEach((entry, i) => { if (entry) postingsByTerm.set(terms[i], entry.postings); });
+
+  const expansions: TermExpansions = new Map();
+  const weights = new Map<string, number>();
+  const missing = terms.filter((term) => !postingsByTerm.has(term));
+  if (missing.length) {
+    const vocabulary = await getVocabulary(database, keys);
+    const known = Array.from(vocabulary.keys());
+    const fuzzy = missing.map((term) => fuzzyMatches(term, known));
+    const fuzzyEntries = await withTransaction(database, [INDEX_STORE], "readonly", (tx) =>
+      Promise.all(fuzzy.map((matches) => getEntries(tx.objectStore(INDEX_STORE), matches.map((m) => vocabulary.get(m.term)!.key))))
+    );
+    missing.forEach((term, i) => {
+      const matches = fuzzy[i];
+      if (!matches.length) return;
+      expansions.set(term, matches.map((m) => m.term));
+      fuzzyEntries[i].forEach((entry, j) => {
+        if (!entry) return;
+        postingsByTerm.set(matches[j].term, entry.postings);
+        weights.set(matches[j].term, FUZZY_WEIGHT / matches[j].distance);
+      });
+    });
+  }
+
+  const scores = scoreBM25(postingsByTerm, stats || EMPTY_STATS, weights);
+  scores.forEach((score, url) => scores.set(url, score * (1 + AUTHORITY_WEIGHT * Math.log1p(authority.get(url) ?? 0))));
+  const passageTerms = Array.from(postingsByTerm.keys());
+  const results: SearchResult[] = [];
+  const byScore = (a: SearchResult, b: SearchResult) => b.score - a.score || b.timestamp - a.timestamp;
+
+  if (requiresText(ast) && terms.length) {
+    // Every match has a posting, so walk candidates best-first and stop once the page is full.
+    const ranked = Array.from(scores).sort((a, b) => b[1] - a[1]);
+    for (let i = 0; i < ranked.length && results.length < limit; i += limit) {
+      const batch = ranked.slice(i, i + limit);
+      const pages = await getPages(database, batch.map(([url]) => url));
+      pages.forEach((page, j) => {
+        if (page && results.length < limit && matches(page, expansions)) {
+          results.push(...passageResults(page, batch[j][1], passageTerms, weights));
+        }
+      });
+    }
+    return collapseDuplicates(database, results.sort(byScore).slice(0, limit));
+  }
+
+  const pages = await withTransaction(database, [PAGES_STORE], "readonly", (tx) => requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).getAll()));
+  for (const page of await openPages(pages)) {
+    if (matches(page, expansions)) results.push(...passageResults(page, scores.get(page.url) || 0, passageTerms, weights));
+  }
+  return collapseDuplicates(database, results.sort(byScore).slice(0, limit));
+}
+
+interface ChunkMatch {
+  similarity: number;
+  passage?: number;
+}
+
+/** Best chunk similarity per page for vectors from `embedder`, with the passage that chunk came from. */
+async function scanEmbeddings(database: string, embedder: Embedder, queryVector: Float32Array): Promise<Map<string, ChunkMatch>> {
+  const best = new Map<string, ChunkMatch>();
+  const compare = ({ url, passage }: EmbeddingRecord, vector: Float32Array) => {
+    const similarity = cosineSimilarity(queryVector, vector);
+    if (similarity > (best.get(url)?.similarity ?? -Infinity)) best.set(url, { similarity, passage });
+  };
+  // Encrypted vectors are collected and compared once the transaction is done.
+  const sealed: EmbeddingRecord[] = [];
+  await withTransaction(database, [EMBEDDINGS_STORE], "readonly", (tx) => new Promise<void>((resolve, reject) => {
+    const request = tx.objectStore(EMBEDDINGS_STORE).index("embedder").openCursor(IDBKeyRange.only(embedder.id));
     request.onsuccess = () => {
       const cursor = request.result;
-      if (cursor) { cursor.delete(); cursor.continue(); }
+      if (!cursor) return resolve();
+      const record = cursor.value as EmbeddingRecord;
+      if (record.vector) compare(record, record.vector);
+      else sealed.push(record);
+      cursor.continue();
     };
-    tx.oncomplete = () => { db.close(); resolve(); };
-    tx.onerror = () => { db.close(); reject(tx.error); };
+    request.onerror = () => reject(request.error);
+  }));
+  const vectors = await Promise.all(sealed.map((record) => embeddingVector(record)));
+  sealed.forEach((record, i) => compare(record, vectors[i]));
+  return best;
+}
+
+async function getPages(database: string, urls: string[]): Promise<(StoredPage | undefined)[]> {
+  const pages = await withTransaction(database, [PAGES_STORE], "readonly", (tx) => {
+    const store = tx.objectStore(PAGES_STORE);
+    return Promise.all(urls.map((url) => requestToPromise<StoredPage | undefined>(store.get(url))));
   });
+  return Promise.all(pages.map((page) => page && openPage(page)));
 }
 
-export async function clearAll(): Promise<void> {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(PAGES_STORE, "readwrite");
+/**
+ * Ranks pages by cosine similarity between the query and their best chunk. Uses the
+ * configured embedding endpoint when it answers, and the local embedder for pages it has
+ * no vectors of, such as pages saved before it was set or while it failed. The query is
+ * read as natural language, without query syntax.
+ */
+export async function searchSemantic(database: string, query: string, limit = 50): Promise<SemanticSearchResults> {
+  if (!query.trim()) return { results: [] };
+  let similarities = new Map<string, ChunkMatch>();
+  let embeddingError: string | undefined;
+  const remote = await getRemoteEmbedder(database);
+  if (remote) {
+    try {
+      const [vector] = await remote.embed([query]);
+      similarities = await scanEmbeddings(database, remote, vector);
+    } catch (e) {
+      embeddingError = e instanceof Error ? e.message : String(e);
+    }
+  }
+  const [vector] = await localEmbedder.embed([query]);
+  for (const [url, match] of await scanEmbeddings(database, localEmbedder, vector)) {
+    if (!similarities.has(url)) similarities.set(url, match);
+  }
+  const ranked = Array.from(similarities).filter(([, m]) => m.similarity > 0).sort((a, b) => b[1].similarity - a[1].similarity).slice(0, limit);
+  const pages = await getPages(database, ranked.map(([url]) => url));
+  const results = await collapseDuplicates(database, pages.flatMap((page, i): SearchResult[] => {
+    if (!page || isFailedPage(page)) return [];
+    const { similarity, passage: index } = ranked[i][1];
+    const passage = index !== undefined ? pagePassages(page)[index] : undefined;
+    return [{ ...page, score: similarity, ...(passage && { passage: { ...passage, index: index! } }) }];
+  }));
+  return { results, ...(embeddingError && { embeddingError }) };
+}
+
+/** Fuses keyword and semantic rankings of passages with reciprocal rank fusion. */
+export async function searchHybrid(database: string, query: string, limit = 50): Promise<SemanticSearchResults> {
+  const [keyword, semantic] = await Promise.all([searchPages(database, query, limit * 2), searchSemantic(database, query, limit * 2)]);
+  const fused = new Map<string, SearchResult>();
+  for (const results of [keyword, semantic.results]) {
+    results.forEach((result, rank) => {
+      const key = `${result.url}#${result.passage?.index ?? ""}`;
+      const score = (fused.get(key)?.score || 0) + 1 / (RRF_K + rank + 1);
+      fused.set(key, { ...result, score });
+    });
+  }
+  const results = await collapseDuplicates(database, Array.from(fused.values()).sort((a, b) => b.score - a.score).slice(0, limit));
+  return { results, ...(semantic.embeddingError && { embeddingError: semantic.embeddingError }) };
+}
+
+function queryWords(node: QueryNode): string[] {
+  switch (node.type) {
+    case "term": return words(node.value);
+    case "and":
+    case "or": return node.children.flatMap(queryWords);
+    default: return [];
+  }
+}
+
+/**
+ * Suggests a respelled query when some of its words are missing from the index, or
+ * match far fewer pages than a close spelling does. Returns null when there is
+ * nothing better to offer or the query does not parse.
+ */
+export async function suggestQuery(database: string, query: string): Promise<string | null> {
+  let ast: QueryNode;
+  try { ast = parseQuery(query); } catch { return null; }
+  const candidates = Array.from(new Set(queryWords(ast)));
+  if (!candidates.length) return null;
+  const keys = await encryptionKeys(database);
+  const stems = candidates.map(stem);
+  const stemKeys = await indexKeys(keys, stems);
+  const entries = await withTransaction(database, [INDEX_STORE], "readonly", (tx) => getEntries(tx.objectStore(INDEX_STORE), stemKeys));
+  const rare = candidates.flatMap((_, i) => ((entries[i]?.postings.length || 0) < SUGGEST_MIN_DF ? [i] : []));
+  if (!rare.length) return null;
+  const vocabulary = await getVocabulary(database, keys);
+  const known = Array.from(vocabulary.keys());
+  const fuzzy = rare.map((i) => fuzzyMatches(stems[i], known, 5));
+  const fuzzyEntries = await withTransaction(database, [INDEX_STORE], "readonly", (tx) =>
+    Promise.all(fuzzy.map((matches) => getEntries(tx.objectStore(INDEX_STORE), matches.map((m) => vocabulary.get(m.term)!.key))))
+  );
+  let suggestion = query;
+  rare.forEach((i, k) => {
+    const df = entries[i]?.postings.length || 0;
+    const matches = fuzzy[k];
+    let best: { word: string; df: number; distance: number } | null = null;
+    for (let j = 0; j < matches.length; j++) {
+      const entry = fuzzyEntries[k][j];
+      if (!entry || entry.postings.length <= df) continue;
+      if (!best || matches[j].distance < best.distance
+        || (matches[j].distance === best.distance && entry.postings.length > best.df)) {
+        best = { word: entry.word || vocabulary.get(matches[j].term)!.word, df: entry.postings.length, distance: matches[j].distance };
+      }
+    }
+    if (best) {
+      const pattern = new RegExp(`(^|[^a-z0-9\\u00c0-\\u024f])${candidates[i]}(?![a-z0-9\\u00c0-\\u024f])`, "i");
+      suggestion = suggestion.replace(pattern, `$1${best.word}`);
+    }
+  });
+  return suggestion !== query ? suggestion : null;
+}
+
+export async function getEncryptionStatus(database: string): Promise<EncryptionStatus> {
+  const record = await getEncryptionRecord(database);
+  return { enabled: !!record, unlocked: !!record && unlocked?.keys.id === record.id, migrating: record?.migrating };
+}
+
+/**
+ * Reads a store in key order, `CONVERT_BATCH_SIZE` records per transaction, and hands
+ * each batch to `fn`, which may run WebCrypto between its own transactions.
+ */
+async function forEachBatch<T>(
+  database: string,
+  storeName: string,
+  keyOf: (record: T) => IDBValidKey,
+  stage: string,
+  onProgress: ((progress: TaskProgress) => void) | undefined,
+  fn: (batch: T[]) => Promise<void>
+): Promise<void> {
+  const total = await withTransaction(database, [storeName], "readonly", (tx) => requestToPromise(tx.objectStore(storeName).count()));
+  let done = 0;
+  let after: IDBValidKey | undefined;
+  onProgress?.({ stage, done, total });
+  for (;;) {
+    const range = after === undefined ? null : IDBKeyRange.lowerBound(after, true);
+    const batch = await withTransaction(database, [storeName], "readonly", (tx) =>
+      requestToPromise<T[]>(tx.objectStore(storeName).getAll(range, CONVERT_BATCH_SIZE))
+    );
+    if (!batch.length) return;
+    after = keyOf(batch[batch.length - 1]);
+    await fn(batch);
+    done += batch.length;
+    onProgress?.({ stage, done: Math.min(done, total), total });
+  }
+}
+
+/**
+ * Encrypts or decrypts every stored page, page version and embedding, moving each page's
+ * index postings between plain and hashed terms as it goes. It runs outside the schema
+ * migrations because it needs the passphrase and WebCrypto cannot run inside an upgrade
+ * transaction. Records already converted are skipped, so an interrupted pass can resume.
+ * The pass stays on one database with the keys it started with, and every batch checks
+ * that the database still expects those keys, so locking meanwhile does not stop it and
+ * it never seals records with keys their database has no record of.
+ */
+async function convertRecords(database: string, state: UnlockedKeys, pass: EncryptionPass, onProgress?: (progress: TaskProgress) => void): Promise<void> {
+  const { keys } = state;
+  const encrypt = pass === "encrypt";
+  const verb = encrypt ? "Encrypting" : "Decrypting";
+  const pending = (record: { sealed?: SealedData }) => !record.sealed === encrypt;
+  const checkKeys = async (tx: IDBTransaction) => {
+    const record = await requestToPromise<EncryptionRecord | undefined>(tx.objectStore(META_STORE).get(ENCRYPTION_KEY));
+    if (record?.id !== keys.id || record.migrating !== pass) throw new EncryptionLockedError("Encryption was changed in another tab. Reload to continue.");
+  };
+
+  await forEachBatch<StoredPage>(database, PAGES_STORE, (p) => p.url, `${verb} pages`, onProgress, async (batch) => {
+    const pages = batch.filter(pending);
+    if (!pages.length) return;
+    let removed: AnalyzedDocument[];
+    let added: AnalyzedDocument[];
+    let converted: StoredPage[];
+    let sealedTerms: Map<string, SealedData> | undefined;
+    if (encrypt) {
+      removed = pages.map(analyzePage);
+      ({ docs: added, sealedTerms } = await blindDocuments(state, removed));
+      converted = await Promise.all(pages.map((page, i) => sealPage(keys, page, added[i])));
+    } else {
+      removed = pages.map(indexedDocument);
+      converted = await openPages(pages, keys);
+      added = converted.map(analyzePage);
+    }
+    await withTransaction(database, [PAGES_STORE, INDEX_STORE, META_STORE, LINKS_STORE], "readwrite", async (tx) => {
+      await checkKeys(tx);
+      const store = tx.objectStore(PAGES_STORE);
+      const links = tx.objectStore(LINKS_STORE);
+      const current = await Promise.all(pages.map((page) => requestToPromise<StoredPage | undefined>(store.get(page.url))));
+      // Pages deleted meanwhile stay deleted; views meanwhile keep their timestamp.
+      const kept = pages.flatMap((page, i) => (current[i] && pending(current[i]!) && current[i]!.contentHash === page.contentHash ? [i] : []));
+      const previousLinks = await Promise.all(kept.map((i) => requestToPromise<LinkRecord | undefined>(links.get(pages[i].url))));
+      let delta = 0;
+      kept.forEach((i, k) => {
+        const before = current[i]!;
+        // Outlinks are not stored while encrypted; decrypting brings them back.
+        const link = encrypt || isFailedPage(converted[i]) ? undefined : toLinkRecord(converted[i]);
+        const next = { ...converted[i], lastViewed: before.lastViewed };
+        // The page and link records change size; its postings and embeddings stay about the same.
+        const change = storedBytes(next) - storedBytes(before) + storedBytes(link) - storedBytes(previousLinks[k]);
+        next.storedSize = footprintOf(before) + change;
+        delta += change;
+        store.put(next);
+        if (link) links.put(link);
+        else links.delete(pages[i].url);
+      });
+      await updateIndex(tx, kept.map((i) => removed[i]), kept.map((i) => added[i]), sealedTerms);
+      await adjustUsage(tx, delta);
+    });
+  });
+
+  await forEachBatch<PageVersion>(database, VERSIONS_STORE, (v) => v.id, `${verb} page versions`, onProgress, async (batch) => {
+    const versions = batch.filter(pending);
+    const converted = await Promise.all(versions.map((version) => (encrypt ? sealVersion(keys, version) : openVersion(version, keys))));
+    await withTransaction(database, [VERSIONS_STORE, META_STORE], "readwrite", async (tx) => {
+      await checkKeys(tx);
+      const store = tx.objectStore(VERSIONS_STORE);
+      const present = await Promise.all(versions.map((version) => requestToPromise(store.getKey(version.id))));
+      // The id holds the content hash, so converted versions move to a new key.
+      let delta = 0;
+      converted.forEach((version, i) => {
+        if (present[i] === undefined) return;
+        store.delete(versions[i].id);
+        store.put(version);
+        delta += storedBytes(version) - storedBytes(versions[i]);
+      });
+      await adjustUsage(tx, delta);
+    });
+  });
+
+  await forEachBatch<EmbeddingRecord>(database, EMBEDDINGS_STORE, (e) => e.id, `${verb} embeddings`, onProgress, async (batch) => {
+    const records = batch.filter(pending);
+    const converted = encrypt
+      ? await sealEmbeddings(keys, records)
+      : await Promise.all(records.map(async ({ sealed, ...record }) => ({ ...record, vector: await embeddingVector({ ...record, sealed }, keys) })));
+    await withTransaction(database, [EMBEDDINGS_STORE, META_STORE], "readwrite", async (tx) => {
+      await checkKeys(tx);
+      const store = tx.objectStore(EMBEDDINGS_STORE);
+      const present = await Promise.all(records.map((record) => requestToPromise(store.getKey(record.id))));
+      converted.forEach((record, i) => { if (present[i] !== undefined) store.put(record); });
+    });
+  });
+
+  await withTransaction(database, [META_STORE], "readwrite", async (tx) => {
+    const meta = tx.objectStore(META_STORE);
+    const record = await requestToPromise<EncryptionRecord | undefined>(meta.get(ENCRYPTION_KEY));
+    if (!record || record.id !== keys.id) return;
+    if (encrypt) {
+      delete record.migrating;
+      meta.put(record, ENCRYPTION_KEY);
+    } else {
+      meta.delete(ENCRYPTION_KEY);
+    }
+  });
+}
+
+/**
+ * Turns on encryption with a passphrase and encrypts everything already saved. The
+ * passphrase cannot be recovered: without it the encrypted pages are lost.
+ */
+export async function enableEncryption(database: string, passphrase: string, options: { onProgress?: (progress: TaskProgress) => void } = {}): Promise<void> {
+  const { keys, check } = await createKeys(passphrase);
+  await withTransaction(database, [META_STORE], "readwrite", async (tx) => {
+    const meta = tx.objectStore(META_STORE);
+    if (await requestToPromise(meta.getKey(ENCRYPTION_KEY))) throw new Error("Encryption is already on for this knowledge base.");
+    meta.put({ ...check, migrating: "encrypt" } satisfies EncryptionRecord, ENCRYPTION_KEY);
+  });
+  unlocked = { keys, sealedTerms: new Map() };
+  await convertRecords(database, unlocked, "encrypt", options.onProgress);
+}
+
+/**
+ * Unlocks the knowledge base for this tab, finishing an interrupted encrypt or decrypt
+ * pass first. Throws `WrongPassphraseError` for the wrong passphrase.
+ */
+export async function unlockEncryption(database: string, passphrase: string, options: { onProgress?: (progress: TaskProgress) => void } = {}): Promise<void> {
+  const record = await getEncryptionRecord(database);
+  if (!record) return;
+  const state: UnlockedKeys = { keys: await unlockKeys(passphrase, record), sealedTerms: new Map() };
+  unlocked = state;
+  if (record.migrating) await convertRecords(database, state, record.migrating, options.onProgress);
+  if (record.migrating === "decrypt") unlocked = null;
+}
+
+/** Forgets the key, so encrypted pages cannot be read or saved until the next unlock. */
+export async function lockEncryption(): Promise<void> {
+  unlocked = null;
+}
+
+/** Decrypts everything and turns encryption off. The passphrase is asked for again as confirmation. */
+export async function disableEncryption(database: string, passphrase: string, options: { onProgress?: (progress: TaskProgress) => void } = {}): Promise<void> {
+  const record = await getEncryptionRecord(database);
+  if (!record) return;
+  const state: UnlockedKeys = { keys: await unlockKeys(passphrase, record), sealedTerms: new Map() };
+  unlocked = state;
+  await withTransaction(database, [META_STORE], "readwrite", async (tx) => {
+    tx.objectStore(META_STORE).put({ ...record, migrating: "decrypt" } satisfies EncryptionRecord, ENCRYPTION_KEY);
+  });
+  await convertRecords(database, state, "decrypt", options.onProgress);
+  unlocked = null;
+}
+
+/** For a forgotten passphrase: deletes all saved data along with the encryption. Settings are kept. */
+export async function resetEncryption(database: string): Promise<void> {
+  await clearAll(database);
+  await withTransaction(database, [META_STORE], "readwrite", async (tx) => {
+    tx.objectStore(META_STORE).delete(ENCRYPTION_KEY);
+  });
+  unlocked = null;
+}
+
+export async function clearDomain(database: string, domain: string): Promise<void> {
+  await withTransaction(database, [PAGES_STORE, INDEX_STORE, META_STORE, EMBEDDINGS_STORE, VERSIONS_STORE, LINKS_STORE], "readwrite", async (tx) => {
+    const meta = tx.objectStore(META_STORE);
+    const [pages, schedules] = await Promise.all([
+      requestToPromise<StoredPage[]>(tx.objectStore(PAGES_STORE).index("domain").getAll(domain)),
+      requestToPromise<Record<string, DomainSchedule> | undefined>(meta.get(SCHEDULES_KEY)),
+    ]);
+    await removePages(tx, pages);
+    if (schedules?.[domain]) {
+      delete schedules[domain];
+      meta.put(schedules, SCHEDULES_KEY);
+    }
+  });
+}
+
+export async function clearAll(database: string): Promise<void> {
+  await withTransaction(database, [PAGES_STORE, INDEX_STORE, META_STORE, EMBEDDINGS_STORE, VERSIONS_STORE, LINKS_STORE, CRAWLS_STORE], "readwrite", async (tx) => {
     tx.objectStore(PAGES_STORE).clear();
-    tx.oncomplete = () => { db.close(); resolve(); };
-    tx.onerror = () => { db.close(); reject(tx.error); };
+    tx.objectStore(CRAWLS_STORE).clear();
+    tx.objectStore(VERSIONS_STORE).clear();
+    tx.objectStore(INDEX_STORE).clear();
+    tx.objectStore(EMBEDDINGS_STORE).clear();
+    tx.objectStore(LINKS_STORE).clear();
+    tx.objectStore(META_STORE).delete(INDEX_STATS_KEY);
+    tx.objectStore(META_STORE).delete(PAGE_RANK_KEY);
+    tx.objectStore(META_STORE).delete(DUPLICATES_KEY);
+    tx.objectStore(META_STORE).delete(STORAGE_USAGE_KEY);
+    tx.objectStore(META_STORE).delete(SCHEDULES_KEY);
   });
 }
 
@@ -0,0 +1,37 @@
+import type { TaskProgress } from "./storage";
+import { storageApi } from "./storage-api";
+import type { SerializedError, StorageRequest, StorageResponse } from "./storage-protocol";
+
+// Owns IndexedDB and the search index off the main thread; see storage-client.ts.
+
+const scope = self as unknown as {
+  postMessage(message: StorageResponse): void;
+  onmessage: ((event: MessageEvent<StorageRequest>) => void) | null;
+};
+
+function serializeError(e: unknown): SerializedError {
+  if (!(e instanceof Error)) return { name: "Error", message: String(e), fields: {} };
+  const fields: SerializedError["fields"] = {};
+  for (const [key, value] of Object.entries(e)) {
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") fields[key] = value;
+  }
+  return { name: e.name, message: e.message, stack: e.stack, fields };
+}
+
+scope.onmessage = async ({ data: request }) => {
+  const { id, method, progress } = request;
+  const args: unknown[] = [...request.args];
+  if (progress) {
+    const options = (args[args.length - 1] as object | undefined) || {};
+    args[args.length - 1] = {
+      ...options,
+      onProgress: (value: TaskProgress) => scope.postMessage({ id, type: "progress", progress: value }),
+    };
+  }
+  try {
+    const value = await (storageApi[method] as (...args: unknown[]) => unknown)(...args);
+    scope.postMessage({ id, type: "result", value });
+  } catch (e) {
+    scope.postMessage({ id, type: "error", error: serializeError(e) });
+  }
+};
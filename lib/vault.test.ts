@@ -0,0 +1,80 @@
+import { crc32 } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createVault } from "./vault";
+import { createZip } from "./zip";
+import { toStoredPage } from "./storage";
+
+/** Reads the stored entries of a ZIP through its central directory, checking each CRC. */
+async function readZip(blob: Blob): Promise<Map<string, string>> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const start = offset + 30 + view.getUint16(offset + 26, true);
+    const data = bytes.subarray(start, start + size);
+    expect(crc32(data)).toBe(crc);
+    entries.set(name, decoder.decode(data));
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+const page = (url: string, html: string) => toStoredPage({ url, content: html, status: 200, timestamp: Date.UTC(2024, 4, 1) });
+
+describe("createZip", () => {
+  it("writes stored entries with UTF-8 names any unzip tool can read", async () => {
+    const zip = createZip([
+      { path: "notes/a.md", content: "first" },
+      { path: "notes/ünïcode.md", content: "zweite Notiz — ✓" },
+    ]);
+    expect(zip.type).toBe("application/zip");
+    expect(Array.from(await readZip(zip))).toEqual([
+      ["notes/a.md", "first"],
+      ["notes/ünïcode.md", "zweite Notiz — ✓"],
+    ]);
+  });
+});
+
+describe("createVault", () => {
+  it("writes one note per page in folders mirroring the URL path", async () => {
+    const files = await readZip(createVault([
+      page("https://docs.a.com/", "<h1>Docs</h1>"),
+      page("https://docs.a.com/guide/setup", "<h1>Setup</h1>"),
+      page("https://docs.a.com/search?q=x", "<p>results</p>"),
+    ], "vault"));
+    expect(Array.from(files.keys())).toEqual([
+      "vault/docs.a.com/index.md",
+      "vault/docs.a.com/guide/setup.md",
+      "vault/docs.a.com/search q=x.md",
+    ]);
+    expect(files.get("vault/docs.a.com/guide/setup.md")).toMatch(/^---\ntitle: "Setup"\nurl: "https:\/\/docs.a.com\/guide\/setup"\ndomain: "docs.a.com"\nstatus: 200\ncrawled: 2024-05-01T00:00:00.000Z\n---\n/);
+  });
+
+  it("rewrites links between exported pages to relative wikilinks, keeping others", async () => {
+    const files = await readZip(createVault([
+      page("https://a.com/guide/intro", '<p><a href="../api/auth#tokens">Tokens</a>, <a href="https://b.com/">elsewhere</a> and <a href="/api/auth#%E0%A4%A">broken</a></p>'),
+      page("https://a.com/api/auth", '<h2 id="tokens">Access tokens</h2><p>text</p>'),
+    ], "vault"));
+    const intro = files.get("vault/a.com/guide/intro.md")!;
+    expect(intro).toContain("[[../api/auth#Access tokens|Tokens]]");
+    expect(intro).toContain("[elsewhere](https://b.com/)");
+    expect(intro).toContain("[[../api/auth|broken]]");
+  });
+
+  it("numbers notes whose paths collide", async () => {
+    const files = await readZip(createVault([page("https://a.com/Page", "<p>one</p>"), page("https://a.com/page", "<p>two</p>")], "vault"));
+    expect(Array.from(files.keys())).toEqual(["vault/a.com/Page.md", "vault/a.com/page 2.md"]);
+  });
+});
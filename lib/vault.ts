@@ -0,0 +1,97 @@
+import { htmlToMarkdown } from "./markdown";
+import { createZip } from "./zip";
+import type { StoredPage } from "./storage";
+
+// Characters Obsidian or common file systems reject in note names.
+const UNSAFE_NAME = /[\\/:*?"<>|#^[\]]/g;
+
+function safeName(segment: string): string {
+  let decoded = segment;
+  try { decoded = decodeURIComponent(segment); } catch {}
+  return decoded.replace(UNSAFE_NAME, "-").replace(/^\.+/, "").trim() || "untitled";
+}
+
+/**
+ * Vault path of a page's note, without `.md`: the domain, then one folder per URL
+ * path segment. Directory URLs become an `index` note inside their folder and query
+ * strings are appended to the name.
+ */
+function notePath(page: StoredPage): string {
+  let url: URL;
+  try {
+    url = new URL(page.url);
+  } catch {
+    return `${safeName(page.domain || "pages")}/${safeName(page.url)}`;
+  }
+  const segments = url.pathname.split("/").filter(Boolean).map(safeName);
+  if (!segments.length || url.pathname.endsWith("/")) segments.push("index");
+  if (url.search) segments[segments.length - 1] += ` ${safeName(url.search.slice(1))}`;
+  return [safeName(url.hostname), ...segments].join("/");
+}
+
+/** `to` relative to the folder of `from`, in the form Obsidian's relative links use. */
+function relativePath(from: string, to: string): string {
+  const fromDirs = from.split("/").slice(0, -1);
+  const target = to.split("/");
+  let common = 0;
+  while (common < fromDirs.length && common < target.length - 1 && fromDirs[common] === target[common]) common++;
+  return [...Array(fromDirs.length - common).fill(".."), ...target.slice(common)].join("/");
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function frontMatter(page: StoredPage): string {
+  const fields: [string, string | number | undefined][] = [
+    ["title", page.title ? yamlString(page.title) : undefined],
+    ["url", yamlString(page.url)],
+    ["domain", yamlString(page.domain)],
+    ["status", page.status],
+    ["crawled", new Date(page.timestamp).toISOString()],
+    ["description", page.description ? yamlString(page.description) : undefined],
+  ];
+  return ["---", ...fields.filter(([, value]) => value !== undefined).map(([key, value]) => `${key}: ${value}`), "---"].join("\n");
+}
+
+function linkLabel(label: string): string {
+  return label.replace(/[|\]]/g, " ").trim();
+}
+
+/**
+ * Builds a ZIP of Markdown notes, one per page, under a `root` folder that opens as an
+ * Obsidian vault. Links between exported pages become relative `[[wikilinks]]`,
+ * pointing at the heading when the link's fragment names one.
+ */
+export function createVault(pages: StoredPage[], root: string): Blob {
+  const paths = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const page of pages) {
+    const base = notePath(page);
+    let path = base;
+    for (let n = 2; taken.has(path.toLowerCase()); n++) path = `${base} ${n}`;
+    taken.add(path.toLowerCase());
+    paths.set(page.url, path);
+  }
+  const byUrl = new Map(pages.map((page) => [page.url, page]));
+
+  const entries = pages.map((page) => {
+    const path = paths.get(page.url)!;
+    const body = htmlToMarkdown(page.content, page.url).replace(/(!?)\[([^\]]*)\]\(([^)\s]+)\)/g, (link, image, label, href) => {
+      if (image) return link;
+      let target: URL;
+      try { target = new URL(href, page.url); } catch { return link; }
+      let hash = target.hash.slice(1);
+      try { hash = decodeURIComponent(hash); } catch {}
+      target.hash = "";
+      const linked = byUrl.get(target.href);
+      if (!linked) return link;
+      const heading = hash && linked.headings?.find((h) => h.id === hash)?.text;
+      const destination = `${relativePath(path, paths.get(linked.url)!)}${heading ? `#${linkLabel(heading)}` : ""}`;
+      return label.trim() ? `[[${destination}|${linkLabel(label)}]]` : `[[${destination}]]`;
+    });
+    const content = body || (page.error ? `> Fetch failed: ${page.error}` : "");
+    return { path: `${root}/${path}.md`, content: `${frontMatter(page)}\n\n${content}\n`, modified: new Date(page.timestamp) };
+  });
+  return createZip(entries);
+}
@@ -0,0 +1,55 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { databaseName } from "./storage";
+import { claimLegacyDatabase, hasUnclaimedLegacyDatabase, listWorkspaces } from "./workspaces";
+
+function createDatabase(name: string, stores: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => stores.forEach((store) => request.result.createObjectStore(store));
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function databaseNames(): Promise<(string | undefined)[]> {
+  return (await indexedDB.databases()).map((d) => d.name);
+}
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("hasUnclaimedLegacyDatabase", () => {
+  it("finds the database from before workspaces until someone claims it", async () => {
+    await createDatabase(databaseName(), ["pages"]);
+    expect(await hasUnclaimedLegacyDatabase()).toBe(true);
+    expect(claimLegacyDatabase("user-1")?.active.dbName).toBe(databaseName());
+    expect(await hasUnclaimedLegacyDatabase()).toBe(false);
+    expect(claimLegacyDatabase(null)).toBeNull();
+    expect(listWorkspaces(null).workspaces.map((w) => w.dbName)).not.toContain(databaseName());
+  });
+
+  it("leaves no database behind when there is none", async () => {
+    expect(await hasUnclaimedLegacyDatabase()).toBe(false);
+    expect(await databaseNames()).not.toContain(databaseName());
+  });
+
+  it("ignores a database without pages", async () => {
+    await createDatabase(databaseName(), []);
+    expect(await hasUnclaimedLegacyDatabase()).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import { databaseName } from "./storage";
+
+/*
+ * Named workspaces per signed-in user, each backed by its own IndexedDB database so
+ * pages, the search index, crawl history and storage settings never mix between
+ * users or workspaces. The list lives in localStorage.
+ */
+
+const REGISTRY_KEY = "spider_workspaces";
+// Registry key for the workspaces used while signed out.
+const GUEST = "guest";
+const DEFAULT_NAME = "My knowledge base";
+const LEGACY_NAME = "Saved before workspaces";
+
+export interface Workspace {
+  id: string;
+  name: string;
+  /** The IndexedDB database holding its pages, index, history and settings. */
+  dbName: string;
+  createdAt: number;
+}
+
+export interface WorkspaceList {
+  workspaces: Workspace[];
+  active: Workspace;
+}
+
+interface Registry {
+  users: Record<string, { active: string; workspaces: Workspace[] }>;
+  /** Whose workspaces took in the database from before workspaces: a user id, or the guest key. */
+  legacyOwner?: string;
+}
+
+function loadRegistry(): Registry {
+  try {
+    const raw = localStorage.getItem(REGISTRY_KEY);
+    const registry = raw ? (JSON.parse(raw) as Registry) : null;
+    return registry?.users ? registry : { users: {} };
+  } catch {
+    return { users: {} };
+  }
+}
+
+function saveRegistry(registry: Registry) {
+  localStorage.setItem(REGISTRY_KEY, JSON.stringify(registry));
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function newWorkspace(key: string, name: string): Workspace {
+  const id = createId();
+  return { id, name, dbName: databaseName(`${key}:${id}`), createdAt: Date.now() };
+}
+
+/** Reads a user's workspaces, creating their first one if they have none. */
+function userEntry(registry: Registry, userId: string | null) {
+  const key = userId ?? GUEST;
+  let entry = registry.users[key];
+  if (!entry?.workspaces.length) {
+    const workspace = newWorkspace(key, DEFAULT_NAME);
+    entry = { active: workspace.id, workspaces: [workspace] };
+    registry.users[key] = entry;
+  }
+  return entry;
+}
+
+function toList(entry: Registry["users"][string]): WorkspaceList {
+  return { workspaces: entry.workspaces, active: entry.workspaces.find((w) => w.id === entry.active) ?? entry.workspaces[0] };
+}
+
+/**
+ * Whether the database from before workspaces exists and is not in anyone's list yet.
+ * Anyone using this browser could have saved pages to it, so it only joins a user's
+ * workspaces, or the signed-out ones, when someone says so.
+ */
+export async function hasUnclaimedLegacyDatabase(): Promise<boolean> {
+  if (loadRegistry().legacyOwner) return false;
+  return legacyDatabaseExists();
+}
+
+/**
+ * Opens the database from before workspaces to see whether it holds pages. Opening a
+ * missing database creates it, so one created here is deleted again.
+ */
+function legacyDatabaseExists(): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    let created = false;
+    const request = indexedDB.open(databaseName());
+    request.onupgradeneeded = () => { created = true; };
+    request.onsuccess = () => {
+      const db = request.result;
+      const exists = !created && db.objectStoreNames.contains("pages");
+      db.close();
+      if (!created) return resolve(exists);
+      const deletion = indexedDB.deleteDatabase(databaseName());
+      deletion.onsuccess = () => resolve(false);
+      deletion.onerror = () => reject(deletion.error);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Adds the database from before workspaces to a user's workspaces, or to the signed-out
+ * ones when `userId` is null, and makes it active. Does nothing if it already has an owner.
+ */
+export function claimLegacyDatabase(userId: string | null): WorkspaceList | null {
+  const registry = loadRegistry();
+  if (registry.legacyOwner) return null;
+  const key = userId ?? GUEST;
+  const workspace: Workspace = { id: createId(), name: LEGACY_NAME, dbName: databaseName(), createdAt: Date.now() };
+  const entry = registry.users[key];
+  if (entry?.workspaces.length) {
+    entry.workspaces.push(workspace);
+    entry.active = workspace.id;
+  } else {
+    registry.users[key] = { active: workspace.id, workspaces: [workspace] };
+  }
+  registry.legacyOwner = key;
+  saveRegistry(registry);
+  return toList(registry.users[key]);
+}
+
+/** The workspaces of a user, or of the signed-out browser when `userId` is null. */
+export function listWorkspaces(userId: string | null): WorkspaceList {
+  const registry = loadRegistry();
+  const entry = userEntry(registry, userId);
+  saveRegistry(registry);
+  return toList(entry);
+}
+
+/** Makes a workspace the one opened next time. */
+export function setActiveWorkspace(userId: string | null, id: string): WorkspaceList {
+  const registry = loadRegistry();
+  const entry = userEntry(registry, userId);
+  if (entry.workspaces.some((w) => w.id === id)) entry.active = id;
+  saveRegistry(registry);
+  return toList(entry);
+}
+
+/** Adds an empty workspace and makes it active. */
+export function createWorkspace(userId: string | null, name: string): WorkspaceList {
+  const registry = loadRegistry();
+  const entry = userEntry(registry, userId);
+  const workspace = newWorkspace(userId ?? GUEST, name.trim() || DEFAULT_NAME);
+  entry.workspaces.push(workspace);
+  entry.active = workspace.id;
+  saveRegistry(registry);
+  return toList(entry);
+}
+
+export function renameWorkspace(userId: string | null, id: string, name: string): WorkspaceList {
+  const registry = loadRegistry();
+  const entry = userEntry(registry, userId);
+  const workspace = entry.workspaces.find((w) => w.id === id);
+  if (workspace && name.trim()) workspace.name = name.trim();
+  saveRegistry(registry);
+  return toList(entry);
+}
+
+/**
+ * Drops a workspace from the list, switching to another one if it was active. The
+ * caller deletes its database once nothing uses it.
+ */
+export function removeWorkspace(userId: string | null, id: string): WorkspaceList {
+  const registry = loadRegistry();
+  const entry = userEntry(registry, userId);
+  entry.workspaces = entry.workspaces.filter((w) => w.id !== id);
+  const list = toList(userEntry(registry, userId));
+  registry.users[userId ?? GUEST].active = list.active.id;
+  saveRegistry(registry);
+  return list;
+}